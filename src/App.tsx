@@ -11,10 +11,11 @@ import { Header } from './components/Header';
 import { AiChat } from './components/AiChat';
 import type { UserProfile } from './types';
 import { SignUp } from './components/SignUp';
+import { profileStore, onboardingCompleteStore, themeStore, type Theme } from './services/storage';
+import { useStoredValue } from './hooks/useStoredValue';
 
 type View = 'home' | 'dashboard' | 'recipes' | 'community' | 'profile' | 'progress';
 
-type Theme = 'light' | 'dark';
 export const ThemeContext = React.createContext<{ theme: Theme; toggleTheme: () => void } | null>(null);
 
 const App: React.FC = () => {
@@ -22,26 +23,15 @@ const App: React.FC = () => {
   const [isOnboardingComplete, setIsOnboardingComplete] = useState<boolean>(false);
   const [activeView, setActiveView] = useState<View>('home');
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [theme, setTheme] = useState<Theme>(() => (localStorage.getItem('nutrisnap_theme') as Theme) || 'light');
+  const [theme, setTheme] = useStoredValue(themeStore);
 
   useEffect(() => {
-    try {
-      const savedProfileJSON = localStorage.getItem('nutrisnap_userProfile');
-      if (savedProfileJSON) {
-        const savedProfile = JSON.parse(savedProfileJSON);
-        if (savedProfile && typeof savedProfile === 'object' && savedProfile.name && savedProfile.email && savedProfile.avatarUrl) {
-            setUserProfile(savedProfile);
-            const onboardingStatus = localStorage.getItem('nutrisnap_onboardingComplete');
-            setIsOnboardingComplete(onboardingStatus === 'true');
-        } else {
-            localStorage.removeItem('nutrisnap_userProfile');
-            localStorage.removeItem('nutrisnap_onboardingComplete');
-        }
-      }
-    } catch (error) {
-      console.error("Failed to parse user profile from localStorage.", error);
-      localStorage.removeItem('nutrisnap_userProfile');
-      localStorage.removeItem('nutrisnap_onboardingComplete');
+    const savedProfile = profileStore.get();
+    if (savedProfile) {
+      setUserProfile(savedProfile);
+      setIsOnboardingComplete(onboardingCompleteStore.get());
+    } else {
+      onboardingCompleteStore.remove();
     }
   }, []);
 
@@ -51,7 +41,6 @@ const App: React.FC = () => {
     } else {
       document.documentElement.classList.remove('dark');
     }
-    localStorage.setItem('nutrisnap_theme', theme);
   }, [theme]);
 
   const toggleTheme = () => {
@@ -61,13 +50,13 @@ const App: React.FC = () => {
   const themeValue = useMemo(() => ({ theme, toggleTheme }), [theme]);
 
   const updateProfile = (profile: UserProfile) => {
-    localStorage.setItem('nutrisnap_userProfile', JSON.stringify(profile));
+    profileStore.set(profile);
     setUserProfile(profile);
   };
   
   const handleOnboardingComplete = (profile: UserProfile) => {
     updateProfile(profile);
-    localStorage.setItem('nutrisnap_onboardingComplete', 'true');
+    onboardingCompleteStore.set(true);
     setIsOnboardingComplete(true);
     setActiveView('dashboard');
   };
@@ -78,7 +67,7 @@ const App: React.FC = () => {
       case 'home':
         return <Home setActiveView={setActiveView} />;
       case 'dashboard':
-        return <Dashboard />;
+        return <Dashboard userProfile={userProfile} />;
       case 'recipes':
         return <RecipeFinder />;
       case 'community':
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, Download, Save, ScanText, X } from 'lucide-react';
+import type { MacroData, Nutrients, ProductContribution } from '../types';
+import { readNutritionLabel } from '../services/geminiService';
+import { exportContribution, saveContribution, submitContribution, contributionToProduct } from '../services/contributions';
+import { productToFoodItem } from '../services/foodProviders';
+import { MICRONUTRIENTS } from '../services/micronutrients';
+import { Spinner } from './Spinner';
+
+interface ContributeProductModalProps {
+  barcode: string;
+  onClose: () => void;
+  onSaved: (item: MacroData, shareStatus: ProductContribution['shareStatus']) => void;
+}
+
+const MACRO_FIELDS: { key: keyof Nutrients; label: string }[] = [
+  { key: 'calories', label: 'Calories (kcal)' },
+  { key: 'protein', label: 'Protein (g)' },
+  { key: 'carbohydrates', label: 'Carbs (g)' },
+  { key: 'fat', label: 'Fat (g)' },
+  { key: 'sugar', label: 'Sugar (g)' },
+];
+
+const inputClass = "w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700";
+
+type NutrientInputs = Partial<Record<keyof Nutrients, string>>;
+
+export const ContributeProductModal: React.FC<ContributeProductModalProps> = ({ barcode, onClose, onSaved }) => {
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [servingSize, setServingSize] = useState('');
+  const [servingAmount, setServingAmount] = useState('');
+  const [servingUnit, setServingUnit] = useState<'g' | 'ml'>('g');
+  const [nutrients, setNutrients] = useState<NutrientInputs>({});
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [share, setShare] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!photo) return;
+    const url = URL.createObjectURL(photo);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setPhoto(file);
+  };
+
+  // Fills the form from the label photo; the user checks the values before saving.
+  const handleReadLabel = async () => {
+    if (!photo) return;
+    setIsReading(true);
+    setError(null);
+    try {
+      const label = await readNutritionLabel(photo);
+      if (label.productName && !name) setName(label.productName);
+      setServingSize(label.servingSize);
+      if (label.servingAmount) setServingAmount(String(label.servingAmount));
+      if (label.servingUnit) setServingUnit(label.servingUnit);
+      setNutrients(Object.fromEntries(Object.entries(label.perServing).map(([key, value]) => [key, String(value)])));
+    } catch (err: any) {
+      setError(err.message || 'An unknown error occurred.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Blank fields stay unknown rather than being sent as 0.
+  const buildContribution = (): ProductContribution => {
+    const perServing: Partial<Nutrients> = {};
+    Object.entries(nutrients).forEach(([key, value]) => {
+      const parsed = parseFloat(value ?? '');
+      if (!isNaN(parsed) && parsed >= 0) perServing[key as keyof Nutrients] = parsed;
+    });
+    const amount = parseFloat(servingAmount);
+    return {
+      barcode,
+      name: name.trim(),
+      ...(brand.trim() ? { brand: brand.trim() } : {}),
+      servingSize: servingSize.trim() || (amount > 0 ? `${amount} ${servingUnit}` : ''),
+      ...(amount > 0 ? { servingAmount: amount } : {}),
+      servingUnit,
+      perServing,
+      hasLabelPhoto: !!photo,
+      shareStatus: share ? 'pending' : 'private',
+      createdAt: new Date().toISOString(),
+    };
+  };
+
+  const calories = parseFloat(nutrients.calories ?? '');
+  const isValid = name.trim() !== '' && !isNaN(calories) && calories >= 0;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    const contribution = buildContribution();
+    const item = productToFoodItem(contributionToProduct(contribution));
+    if (!item) {
+      setError('Enter the calories per serving to save this product.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+
+    let shareStatus = contribution.shareStatus;
+    try {
+      await saveContribution(contribution, photo);
+      if (share) {
+        try {
+          await submitContribution(barcode);
+          shareStatus = 'submitted';
+        } catch (err) {
+          // Kept as pending; it is retried when the app is next online.
+          console.warn(`Sharing product ${barcode} was postponed`, err);
+        }
+      }
+    } catch (err) {
+      console.error(`Failed to save product ${barcode}`, err);
+      setError("Couldn't save this product on your device. Please try again.");
+      return;
+    } finally {
+      setIsSaving(false);
+    }
+    onSaved(item, shareStatus);
+  };
+
+  const renderNutrientInput = (key: keyof Nutrients, label: string) => (
+    <label key={key} className="text-xs text-gray-500 dark:text-gray-400">
+      {label}
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={nutrients[key] ?? ''}
+        onChange={(e) => setNutrients(current => ({ ...current, [key]: e.target.value }))}
+        className={`${inputClass} mt-1 text-sm text-gray-800 dark:text-gray-100`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center sm:p-4 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-300">
+      <div className="bg-white dark:bg-gray-800 w-full sm:max-w-lg max-h-[92vh] rounded-t-2xl sm:rounded-2xl shadow-2xl flex flex-col animate-in slide-in-from-bottom-5 duration-300">
+        <div className="flex justify-between items-center p-6 pb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Add This Product</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Barcode {barcode}. Saved on this device; sharing is up to you.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Close"><X size={20} /></button>
+        </div>
+
+        <div className="overflow-y-auto px-6 space-y-4">
+          <div className="flex gap-3 items-center">
+            <label className="flex-shrink-0 w-20 h-20 rounded-lg border-2 border-dashed border-teal-300 dark:border-teal-700 flex items-center justify-center cursor-pointer overflow-hidden hover:bg-teal-50 dark:hover:bg-gray-700/50">
+              {previewUrl ? <img src={previewUrl} alt="Nutrition label" className="w-full h-full object-cover" /> : <Camera size={24} className="text-teal-500" />}
+              <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhotoChange} aria-label="Nutrition label photo" />
+            </label>
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600 dark:text-gray-300">Add a photo of the Nutrition Facts label to fill the form in automatically.</p>
+              <button onClick={handleReadLabel} disabled={!photo || isReading} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300 disabled:opacity-50">
+                {isReading ? <Spinner borderColor="border-teal-500" /> : <ScanText size={16} />} Read label
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Product name" className={`${inputClass} col-span-2`} />
+            <input type="text" value={brand} onChange={(e) => setBrand(e.target.value)} placeholder="Brand" className={`${inputClass} col-span-2`} />
+            <input type="text" value={servingSize} onChange={(e) => setServingSize(e.target.value)} placeholder='Serving size, e.g. "1 bar (40 g)"' className={`${inputClass} col-span-2`} />
+            <input type="number" min="0" step="any" value={servingAmount} onChange={(e) => setServingAmount(e.target.value)} placeholder="Serving amount" className={inputClass} />
+            <select value={servingUnit} onChange={(e) => setServingUnit(e.target.value as 'g' | 'ml')} aria-label="Serving unit" className={inputClass}>
+              <option value="g">grams</option>
+              <option value="ml">ml</option>
+            </select>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Per serving</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {MACRO_FIELDS.map(field => renderNutrientInput(field.key, field.label))}
+            </div>
+            <details className="mt-2">
+              <summary className="text-sm text-teal-600 dark:text-teal-400 cursor-pointer">More nutrients</summary>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
+                {MICRONUTRIENTS.map(info => renderNutrientInput(info.key, `${info.label} (${info.unit})`))}
+              </div>
+            </details>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={share} onChange={(e) => setShare(e.target.checked)} className="mt-0.5 rounded text-teal-500 focus:ring-teal-400" />
+            Share this product with Open Food Facts so others can scan it too. If you're offline it will be sent later.
+          </label>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+        </div>
+
+        <div className="flex justify-between items-center gap-3 p-6 pt-4">
+          <button onClick={() => exportContribution(buildContribution())} disabled={!isValid} className="flex items-center gap-1 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-teal-600 disabled:opacity-50" title="Download an Open Food Facts product file">
+            <Download size={16} /> Export
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="text-gray-600 dark:text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">Cancel</button>
+            <button onClick={handleSave} disabled={!isValid || isSaving} className="bg-teal-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-teal-600 transition-colors flex items-center gap-2 disabled:bg-teal-300 disabled:cursor-not-allowed">
+              {isSaving ? <Spinner /> : <><Save size={16} /> Save</>}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
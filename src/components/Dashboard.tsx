@@ -1,19 +1,34 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { analyzeImageForMacros, lookupBarcode } from '../services/geminiService';
-import type { MacroData, DailyLogEntry, LoggedMealItem, LoggedExerciseItem } from '../types';
-import { Camera, X, Trash2, Zap, Edit, GlassWater, PlusCircle, MinusCircle, Save, Barcode, Dumbbell } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { analyzeImageForMacros, parseMealDescription, readNutritionLabel } from '../services/geminiService';
+import { getNutritionGoals } from '../services/goals';
+import { waterLogStore } from '../services/storage';
+import { getDayLog, saveDayLog, saveMealImage, getMealImage } from '../services/logStore';
+import { customFoodsStore, pendingScansStore } from '../services/storage';
+import { findCustomFoodByName, recordCustomFoodUse, saveCustomFood, searchCustomFoods, toFoodItem } from '../services/customFoods';
+import { saveMeal } from '../services/savedMeals';
+import { plannedMealToFoodItem } from '../services/mealPlans';
+import { searchGenericFoods, toGenericFoodItem, type GenericFood } from '../services/foodDatabase';
+import { labelToFoodItem, saveScannedLabel } from '../services/nutritionLabels';
+import { findProduct, getCachedProduct } from '../services/productCache';
+import { foodDataService, productToFoodItem } from '../services/foodProviders';
+import { queueScan, resolvePendingScans } from '../services/scanQueue';
+import { submitPendingContributions } from '../services/contributions';
+import { useStoredValue } from '../hooks/useStoredValue';
+import { MACRO_KEYS, PORTION_UNITS, createPortionedItem, divideNutrients, formatPortion, formatPortionUnit, getPortion, getPortionOptions, setNutrientTotal, setPortionQuantity, switchPortionBasis } from '../services/portions';
+import { MEAL_SLOTS, MEAL_SLOT_LABELS, suggestMealSlot, getMealSlot } from '../services/mealSlots';
+import { getTodayKey, shiftDateKey, describeDateKey, createEntryTimestamp, formatEntryTime, getUserTimeZone } from '../services/dateUtils';
+import type { MacroData, AnalysisPhoto, DailyLogEntry, LoggedMealItem, LoggedExerciseItem, UserProfile, Meal, MealSlot, Nutrients, PortionUnit, ProductContribution } from '../types';
+import { Camera, X, Trash2, Zap, Edit, GlassWater, PlusCircle, MinusCircle, Save, Barcode, Dumbbell, ChevronLeft, ChevronRight, CalendarDays, Bookmark, BookOpen, CopyPlus, ScanText, RefreshCw, WifiOff } from 'lucide-react';
 import { Spinner } from './Spinner';
 import { ProgressRing } from './ProgressRing';
+import { MyFoodsModal } from './MyFoodsModal';
+import { MealReviewSheet } from './MealReviewSheet';
+import { QuickLogPanel, type QuickLogGroup } from './QuickLogPanel';
+import { PlannedMealsPanel } from './PlannedMealsPanel';
+import { MicronutrientPanel } from './MicronutrientPanel';
+import { ContributeProductModal } from './ContributeProductModal';
 import { BrowserMultiFormatReader, IScannerControls } from '@zxing/browser';
 
-const DAILY_GOALS = {
-  calories: 2000,
-  protein: 120,
-  carbohydrates: 250,
-  fat: 65,
-  water: 8,
-};
-
 const COMMON_ACTIVITIES = [
   { name: 'Running', caloriesPerMinute: 11.5 },
   { name: 'Weightlifting (vigorous)', caloriesPerMinute: 6 },
@@ -24,12 +39,63 @@ const COMMON_ACTIVITIES = [
   { name: 'HIIT', caloriesPerMinute: 14 },
 ];
 
+interface DashboardProps {
+  userProfile: UserProfile;
+}
+
 interface EditingItemState {
   mealId: string;
   itemIndex: number;
   data: MacroData;
 }
 
+type ManualItem = Partial<Omit<MacroData, 'portion' | 'portionOptions'>> & {
+  quantity?: number;
+  unit?: PortionUnit;
+  source?: MacroData; // the My Foods or database item the row was filled from, used for rescaling
+  customFoodId?: string; // set when the row was filled from My Foods
+  lookupId?: string; // pending "describe your meal" request this placeholder row stands for
+  isLoading?: boolean;
+};
+
+const createEmptyManualItem = (): ManualItem => ({ foodName: '', calories: undefined, protein: undefined, carbohydrates: undefined, fat: undefined, sugar: undefined, isLoading: false });
+
+const isBlankManualItem = (item: ManualItem) => !item.isLoading && !item.foodName && item.calories === undefined;
+
+const toManualItem = (source: MacroData, customFoodId?: string): ManualItem => {
+  const { portion, portionOptions, ...nutrition } = source;
+  // Macros the source didn't report are left blank for the user to fill in.
+  const unknown = Object.fromEntries((source.unknownNutrients || []).map(key => [key, undefined]));
+  return {
+    ...nutrition,
+    ...unknown,
+    quantity: getPortion(source).quantity,
+    unit: getPortion(source).unit,
+    source,
+    customFoodId,
+    isLoading: false,
+  };
+};
+
+const formatGrams = (item: MacroData, key: 'protein' | 'carbohydrates' | 'fat') =>
+  item.unknownNutrients?.includes(key) ? '?' : `${Math.round(item[key])}g`;
+
+const MAX_PHOTOS = 4;
+
+interface SelectedPhoto {
+  id: string;
+  file: File;
+  previewUrl: string;
+  kind: AnalysisPhoto['kind'];
+}
+
+// Photo results wait here until the user has reviewed them.
+interface PendingAnalysis {
+  photos: AnalysisPhoto[]; // compressed, kept for re-analysis and for storing the meal photo
+  items: MacroData[];
+  version: number; // bumped on re-analysis so the review sheet starts over
+}
+
 interface ActivityItem {
   name: string;
   duration: number | '';
@@ -125,67 +191,128 @@ const BarcodeScanner: React.FC<{
   );
 };
 
+const MealPhoto: React.FC<{ entryId: string }> = ({ entryId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isMounted = true;
+    getMealImage(entryId)
+      .then(blob => {
+        if (blob && isMounted) {
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      })
+      .catch(err => console.error("Failed to load meal photo", err));
+    return () => {
+      isMounted = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [entryId]);
+
+  if (!url) return null;
+  return <img src={url} alt="Logged meal" className="w-full h-32 object-cover rounded-lg mb-3" />;
+};
+
 
-export const Dashboard: React.FC = () => {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+export const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
+  const [photos, setPhotos] = useState<SelectedPhoto[]>([]);
+  const [leftoversMode, setLeftoversMode] = useState(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [dailyLog, setDailyLog] = useState<DailyLogEntry[]>([]);
   const [waterIntake, setWaterIntake] = useState<number>(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [logMode, setLogMode] = useState<'snap' | 'manual' | 'activity'>('snap');
-  const [manualItems, setManualItems] = useState<(Partial<MacroData> & { isLoading?: boolean })[]>([
-    { foodName: '', calories: undefined, protein: undefined, carbohydrates: undefined, fat: undefined, sugar: undefined, isLoading: false }
-  ]);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+  const [logMode, setLogMode] = useState<'snap' | 'manual' | 'recent' | 'activity'>('snap');
+  const [manualItems, setManualItems] = useState<ManualItem[]>([createEmptyManualItem()]);
+  const [mealDescription, setMealDescription] = useState('');
   const [activityItems, setActivityItems] = useState<ActivityItem[]>([{ name: '', duration: '', caloriesBurned: '' }]);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<EditingItemState | null>(null);
+  const [mealSlot, setMealSlot] = useState<MealSlot>(() => suggestMealSlot());
+  const [pendingAnalysis, setPendingAnalysis] = useState<PendingAnalysis | null>(null);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [customFoods] = useStoredValue(customFoodsStore);
+  const [isMyFoodsOpen, setIsMyFoodsOpen] = useState(false);
+  const [suggestionRow, setSuggestionRow] = useState<number | null>(null);
+  const [isReadingLabel, setIsReadingLabel] = useState(false);
+  const [productSearch, setProductSearch] = useState<{ row: number; query: string; results: MacroData[] | null } | null>(null);
+  const [labelBarcode, setLabelBarcode] = useState<string | null>(null); // unmatched barcode the next label scan is saved under
+  const [contributionBarcode, setContributionBarcode] = useState<string | null>(null);
+  const [pendingScans] = useStoredValue(pendingScansStore);
+  const [isRefreshingProduct, setIsRefreshingProduct] = useState(false);
+  const [logVersion, setLogVersion] = useState(0); // bumped when the log is changed outside this component
 
-  const getTodaysDateKey = () => new Date().toISOString().slice(0, 10);
+  const goals = useMemo(() => getNutritionGoals(userProfile), [userProfile]);
+
+  const [selectedDate, setSelectedDate] = useState<string>(getTodayKey);
+  const isToday = selectedDate === getTodayKey();
+  const dayLabel = describeDateKey(selectedDate);
   
   useEffect(() => {
-    const today = getTodaysDateKey();
-    try {
-        const allLogsRaw = localStorage.getItem('nutrisnap_dailyLogs');
-        const allLogs = allLogsRaw ? JSON.parse(allLogsRaw) : {};
-        setDailyLog(allLogs[today] || []);
-
-        const savedWater = localStorage.getItem('nutrisnap_waterIntake');
-        const savedDate = localStorage.getItem('nutrisnap_logDate');
+    let isCurrent = true;
+    setEditingItem(null);
+    getDayLog(selectedDate)
+      .then(log => {
+        if (isCurrent) setDailyLog(log);
+      })
+      .catch(err => {
+        console.error(`Failed to load the log for ${selectedDate}`, err);
+        if (isCurrent) setDailyLog([]);
+      });
+    setWaterIntake(waterLogStore.get()[selectedDate] || 0);
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedDate, logVersion]);
 
-        if (savedDate === today) {
-            setWaterIntake(savedWater ? JSON.parse(savedWater) : 0);
-        } else {
-            localStorage.removeItem('nutrisnap_waterIntake');
-            localStorage.removeItem('nutrisnap_logDate');
-            setWaterIntake(0);
-        }
-    } catch(err) {
-        console.error("Failed to load data from local storage", err);
-        setDailyLog([]);
-        setWaterIntake(0);
+  const handleResolvePendingScans = async () => {
+    try {
+      const { logged, notFound, dates } = await resolvePendingScans();
+      if (dates.length > 0) setLogVersion(version => version + 1);
+      const messages: string[] = [];
+      if (logged.length > 0) {
+        messages.push(`Logged ${logged.length} ${logged.length === 1 ? 'scan' : 'scans'} from while you were offline: ${logged.map(entry => entry.items[0].foodName).join(', ')}.`);
+      }
+      if (notFound.length > 0) {
+        // They have left the queue, so every one is listed for the user to log by hand.
+        const barcodes = [...new Set(notFound)];
+        messages.push(`No product was found for ${barcodes.length === 1 ? 'barcode' : 'barcodes'} ${barcodes.join(', ')} scanned while you were offline. Log ${barcodes.length === 1 ? 'it' : 'them'} from the label or manually.`);
+        setLabelBarcode(barcodes[barcodes.length - 1]);
+        setLogMode('snap');
+      }
+      if (messages.length > 0) setNotice(messages.join(' '));
+    } catch (err) {
+      console.error("Failed to log queued barcode scans", err);
     }
+  };
+
+  // Scans queued offline are resolved, and products the user chose to share are
+  // sent, on load and whenever the connection comes back.
+  useEffect(() => {
+    const handleOnline = () => {
+      handleResolvePendingScans();
+      submitPendingContributions().catch(err => console.error("Failed to share saved products", err));
+    };
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, []);
   
   const saveLog = (log: DailyLogEntry[]) => {
-      const today = getTodaysDateKey();
-      try {
-        const allLogsRaw = localStorage.getItem('nutrisnap_dailyLogs');
-        const allLogs = allLogsRaw ? JSON.parse(allLogsRaw) : {};
-        allLogs[today] = log;
-        localStorage.setItem('nutrisnap_dailyLogs', JSON.stringify(allLogs));
-      } catch (err) {
-        console.error("Failed to save log data to local storage", err);
-      }
       setDailyLog(log);
+      saveDayLog(selectedDate, log).catch(err => {
+        console.error("Failed to save log data", err);
+        setError("Your log couldn't be saved on this device. Please check your browser storage settings.");
+      });
   }
 
   const saveWaterIntake = (glasses: number) => {
-    const today = getTodaysDateKey();
     const newIntake = Math.max(0, glasses);
-    localStorage.setItem('nutrisnap_waterIntake', JSON.stringify(newIntake));
-    localStorage.setItem('nutrisnap_logDate', today);
+    waterLogStore.update(waterLog => ({ ...waterLog, [selectedDate]: newIntake }));
     setWaterIntake(newIntake);
   }
 
@@ -194,29 +321,57 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setError(null);
-      setImageFile(file);
-      setPreviewUrl(URL.createObjectURL(file));
+    const files = Array.from(event.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (files.length === 0) return;
+    setError(null);
+    const room = MAX_PHOTOS - photos.length;
+    if (files.length > room) {
+      setError(`You can add up to ${MAX_PHOTOS} photos per meal.`);
     }
+    const added = files.slice(0, Math.max(room, 0)).map((file, index): SelectedPhoto => ({
+      id: `photo_${Date.now()}_${index}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      kind: 'meal',
+    }));
+    setPhotos(current => [...current, ...added]);
+  };
+
+  const handleRemovePhoto = (photoId: string) => {
+    setPhotos(current => {
+      const removed = current.find(photo => photo.id === photoId);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return current.filter(photo => photo.id !== photoId);
+    });
+  };
+
+  const togglePhotoKind = (photoId: string) => {
+    setPhotos(current => current.map(photo =>
+      photo.id === photoId ? { ...photo, kind: photo.kind === 'meal' ? 'leftovers' : 'meal' } : photo
+    ));
   };
 
   const handleAnalyzeClick = async () => {
-    if (!imageFile) return;
+    if (photos.length === 0) return;
+    const selected = leftoversMode ? photos : photos.map(photo => ({ ...photo, kind: 'meal' as const }));
+    if (!selected.some(photo => photo.kind === 'meal')) {
+      setError("Add at least one photo of the meal as it was served.");
+      return;
+    }
+    if (leftoversMode && !selected.some(photo => photo.kind === 'leftovers')) {
+      setError("Mark at least one photo as leftovers, or turn off leftovers mode.");
+      return;
+    }
     setLoading(true);
     setError(null);
     try {
-      const compressedBlob = await compressImage(imageFile);
-      const analysisResults = await analyzeImageForMacros(compressedBlob);
-      const newLogEntry: LoggedMealItem = {
-          type: 'meal',
-          id: `meal_${Date.now()}`,
-          timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-          items: analysisResults
-      }
-      saveLog([newLogEntry, ...dailyLog]);
-      clearSelection();
+      const compressed = await Promise.all(selected.map(async (photo): Promise<AnalysisPhoto> => ({
+        image: await compressImage(photo.file),
+        kind: photo.kind,
+      })));
+      const analysisResults = await analyzeImageForMacros(compressed);
+      setPendingAnalysis({ photos: compressed, items: analysisResults, version: 0 });
     } catch (err: any) {
       setError(err.message || 'An unknown error occurred.');
     } finally {
@@ -224,35 +379,248 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleReanalyze = async (hint: string) => {
+    if (!pendingAnalysis) return;
+    setIsReanalyzing(true);
+    setError(null);
+    try {
+      const analysisResults = await analyzeImageForMacros(pendingAnalysis.photos, hint);
+      setPendingAnalysis(current => current && { ...current, items: analysisResults, version: current.version + 1 });
+    } catch (err: any) {
+      setError(err.message || 'An unknown error occurred.');
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  const handleConfirmAnalysis = async (items: MacroData[]) => {
+    if (!pendingAnalysis) return;
+    const newLogEntry: LoggedMealItem = {
+        type: 'meal',
+        id: `meal_${Date.now()}`,
+        timestamp: createEntryTimestamp(selectedDate),
+        timeZone: getUserTimeZone(),
+        items,
+        hasImage: true,
+        mealSlot,
+    }
+    try {
+        // The first photo of the served meal is the one kept with the entry.
+        const mealPhoto = pendingAnalysis.photos.find(photo => photo.kind === 'meal') || pendingAnalysis.photos[0];
+        await saveMealImage(newLogEntry.id, mealPhoto.image);
+    } catch (imageError) {
+        console.error("Failed to store meal photo", imageError);
+        newLogEntry.hasImage = false;
+    }
+    saveLog([newLogEntry, ...dailyLog]);
+    handleDiscardAnalysis();
+  };
+
+  const handleDiscardAnalysis = () => {
+    setPendingAnalysis(null);
+    setError(null);
+    clearSelection();
+  };
+
   const clearSelection = () => {
-    setImageFile(null);
-    setPreviewUrl(null);
+    photos.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+    setPhotos([]);
+    setLeftoversMode(false);
     if (fileInputRef.current) {
         fileInputRef.current.value = "";
     }
   };
   
   const clearDailyLog = () => {
-      if (window.confirm("Are you sure you want to clear your entire log for today? This action cannot be undone.")) {
+      if (window.confirm(`Are you sure you want to clear your entire log for ${isToday ? 'today' : dayLabel}? This action cannot be undone.`)) {
         saveLog([]);
         saveWaterIntake(0);
       }
   }
 
-  const handleManualItemChange = (index: number, field: keyof MacroData, value: string) => {
+  const handleManualItemChange = (index: number, field: keyof Omit<ManualItem, 'isLoading' | 'customFoodId' | 'source'>, value: string) => {
     const newItems = [...manualItems];
-    const isNumericField = field !== 'foodName';
+    const isNumericField = field !== 'foodName' && field !== 'unit';
     
     newItems[index] = {
       ...newItems[index],
       [field]: isNumericField ? (value === '' ? undefined : parseFloat(value)) : value
     };
+
+    const { source, unit, quantity } = newItems[index];
+    if (field === 'foodName') {
+      // A renamed row is a different food; offer suggestions again.
+      newItems[index] = { ...newItems[index], source: undefined, customFoodId: undefined };
+    } else if (field === 'quantity' && source && unit === getPortion(source).unit && quantity !== undefined && quantity > 0) {
+      // Rows filled from a saved or database food rescale with the amount, like the edit form does.
+      const { portion, portionOptions, ...scaled } = setPortionQuantity(source, quantity);
+      newItems[index] = { ...newItems[index], ...scaled, foodName: newItems[index].foodName };
+    } else if (field === 'unit' && source) {
+      // Switching to another unit the food is known in (e.g. grams from a label) converts the amount too.
+      const basis = getPortionOptions(source).find(option => option.unit === unit);
+      if (basis) {
+        const switched = switchPortionBasis(source, basis);
+        const { portion, portionOptions, ...scaled } = switched;
+        newItems[index] = { ...newItems[index], ...scaled, foodName: newItems[index].foodName, quantity: getPortion(switched).quantity, source: switched };
+      }
+    }
     
     setManualItems(newItems);
   };
 
+  const fillManualRow = (index: number, source: MacroData, customFoodId?: string) => {
+    const newItems = [...manualItems];
+    newItems[index] = toManualItem(source, customFoodId);
+    setManualItems(newItems);
+    setSuggestionRow(null);
+  };
+
+  const handleDescribeMeal = async () => {
+    const description = mealDescription.trim();
+    if (!description) return;
+    setError(null);
+    setMealDescription('');
+
+    // A loading placeholder row holds the spot until the items come back.
+    const lookupId = `lookup_${Date.now()}`;
+    setManualItems(items => [
+      ...items.filter(item => !isBlankManualItem(item)),
+      { ...createEmptyManualItem(), foodName: description, lookupId, isLoading: true },
+    ]);
+
+    const replacePlaceholder = (rows: ManualItem[]) => setManualItems(items => {
+      const next = items.flatMap(item => (item.lookupId === lookupId ? rows : [item]));
+      return next.length > 0 ? next : [createEmptyManualItem()];
+    });
+
+    try {
+      const parsedItems = await parseMealDescription(description);
+      if (parsedItems.length === 0) {
+        setError(`Couldn't find any foods in "${description}". Try naming each item.`);
+      }
+      replacePlaceholder(parsedItems.map(item => toManualItem(item)));
+    } catch (err: any) {
+      setError(err.message || 'An unknown error occurred.');
+      replacePlaceholder([]);
+      setMealDescription(description);
+    }
+  };
+
+  const handleLabelFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (labelInputRef.current) labelInputRef.current.value = "";
+    if (!file) return;
+    setIsReadingLabel(true);
+    setError(null);
+    try {
+      // Small print needs more resolution than a meal photo.
+      const image = await compressImage(file, 0.85, 1600);
+      const label = await readNutritionLabel(image);
+      const item = labelToFoodItem(label);
+      if (!item) throw new Error("The label doesn't list calories, so it can't be logged.");
+      if (labelBarcode) {
+        saveScannedLabel(labelBarcode, label);
+        setLabelBarcode(null);
+      }
+      // The row starts at one serving; changing the amount or unit rescales it.
+      setManualItems(items => [...items.filter(item => !isBlankManualItem(item)), toManualItem(item)]);
+      setLogMode('manual');
+    } catch (err: any) {
+      setError(err.message || 'An unknown error occurred.');
+    } finally {
+      setIsReadingLabel(false);
+    }
+  };
+
+  const handleContributionSaved = (item: MacroData, shareStatus: ProductContribution['shareStatus']) => {
+    setContributionBarcode(null);
+    setLabelBarcode(null);
+    setManualItems(items => [...items.filter(row => !isBlankManualItem(row)), toManualItem(item)]);
+    setLogMode('manual');
+    setNotice(
+      shareStatus === 'submitted' ? `Thanks! ${item.foodName} was saved and shared with Open Food Facts.`
+      : shareStatus === 'pending' ? `${item.foodName} was saved. It will be shared with Open Food Facts once it can be sent.`
+      : `${item.foodName} was saved on this device and will be recognised next time you scan it.`
+    );
+  };
+
+  const handleSelectCustomFood = (index: number, foodId: string) => {
+    const food = customFoods.find(f => f.id === foodId);
+    if (food) fillManualRow(index, toFoodItem(food), food.id);
+  };
+
+  const handleSearchProducts = async (index: number, query: string) => {
+    setProductSearch({ row: index, query, results: null });
+    try {
+      const products = await foodDataService.search(query, 8);
+      const results = products.map(productToFoodItem).filter((item): item is MacroData => item !== null);
+      setProductSearch(current => (current?.row === index && current.query === query ? { ...current, results } : current));
+    } catch (err: any) {
+      setProductSearch(null);
+      setError(err.message || 'An unknown error occurred while searching for products.');
+    }
+  };
+
+  const handleSelectGenericFood = (index: number, food: GenericFood) => {
+    fillManualRow(index, toGenericFoodItem(food));
+  };
+
+  /** Turns a manual-entry row into a food item, keeping the portion details of the food it was filled from. */
+  const toFoodItemFromRow = (item: ManualItem): MacroData => {
+    const { foodName, quantity: rawQuantity, unit = 'serving', source, customFoodId, isLoading, barcode, unknownNutrients: _unknown, ...nutrients } = item;
+    const quantity = rawQuantity && rawQuantity > 0 ? rawQuantity : 1;
+    const totals: Nutrients = {
+        ...nutrients,
+        calories: item.calories!,
+        protein: item.protein || 0,
+        carbohydrates: item.carbohydrates || 0,
+        fat: item.fat || 0,
+        sugar: item.sugar || 0,
+    };
+    const sourcePortion = source && getPortion(source).unit === unit ? getPortion(source) : undefined;
+    // Macros left blank stay unknown rather than counting as a measured 0.
+    const unknownNutrients = MACRO_KEYS.filter(key => key !== 'calories' && item[key] === undefined);
+    return {
+        ...createPortionedItem(
+            foodName!,
+            { unit, ...(sourcePortion?.label ? { label: sourcePortion.label } : {}), perUnit: divideNutrients(totals, quantity) },
+            quantity,
+            source?.portionOptions
+        ),
+        ...(barcode ? { barcode } : {}),
+        ...(unknownNutrients.length > 0 ? { unknownNutrients } : {}),
+    };
+  };
+
+  const handleSaveManualRowToMyFoods = (index: number) => {
+    const item = manualItems[index];
+    if (!item.foodName || !item.calories) {
+      setError("Enter a name and calories before saving a food to My Foods.");
+      return;
+    }
+    const saved = saveCustomFood(toFoodItemFromRow(item));
+    const newItems = [...manualItems];
+    newItems[index] = { ...item, source: toFoodItem(saved), customFoodId: saved.id };
+    setManualItems(newItems);
+  };
+
+  const handleQuickLogCustomFood = (foodId: string) => {
+    const food = customFoods.find(f => f.id === foodId);
+    if (!food) return;
+    const newLogEntry: LoggedMealItem = {
+      type: 'meal',
+      id: `meal_${Date.now()}`,
+      timestamp: createEntryTimestamp(selectedDate),
+      timeZone: getUserTimeZone(),
+      items: [toFoodItem(food)],
+      mealSlot,
+    };
+    saveLog([newLogEntry, ...dailyLog]);
+    recordCustomFoodUse([food.id]);
+  };
+
   const addManualItem = () => {
-    setManualItems([...manualItems, { foodName: '', calories: undefined, protein: undefined, carbohydrates: undefined, fat: undefined, sugar: undefined, isLoading: false }]);
+    setManualItems([...manualItems, createEmptyManualItem()]);
   };
 
   const removeManualItem = (index: number) => {
@@ -263,16 +631,10 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleManualLogSubmit = () => {
+    if (manualItems.some(item => item.isLoading)) return;
     setError(null);
-    const validItems = manualItems.filter(item => item.foodName && item.calories !== undefined && item.calories > 0)
-      .map(item => ({
-          foodName: item.foodName!,
-          calories: item.calories!,
-          protein: item.protein || 0,
-          carbohydrates: item.carbohydrates || 0,
-          fat: item.fat || 0,
-          sugar: item.sugar || 0,
-      }));
+    const validRows = manualItems.filter(item => item.foodName && item.calories !== undefined && item.calories > 0);
+    const validItems = validRows.map(toFoodItemFromRow);
 
     if (validItems.length === 0) {
       setError("Please enter at least one food item with a name and calories.");
@@ -282,12 +644,15 @@ export const Dashboard: React.FC = () => {
     const newLogEntry: LoggedMealItem = {
       type: 'meal',
       id: `meal_${Date.now()}`,
-      timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      timestamp: createEntryTimestamp(selectedDate),
+      timeZone: getUserTimeZone(),
       items: validItems,
+      mealSlot,
     };
 
     saveLog([newLogEntry, ...dailyLog]);
-    setManualItems([{ foodName: '', calories: undefined, protein: undefined, carbohydrates: undefined, fat: undefined, sugar: undefined, isLoading: false }]);
+    recordCustomFoodUse(validRows.flatMap(item => (item.customFoodId ? [item.customFoodId] : [])));
+    setManualItems([createEmptyManualItem()]);
   };
 
   const handleActivityItemChange = (index: number, field: keyof ActivityItem, value: string) => {
@@ -338,7 +703,8 @@ export const Dashboard: React.FC = () => {
     const newActivityEntries: LoggedExerciseItem[] = validItems.map((item, i) => ({
         type: 'exercise',
         id: `ex_${Date.now()}_${i}`,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        timestamp: createEntryTimestamp(selectedDate),
+        timeZone: getUserTimeZone(),
         name: item.name,
         caloriesBurned: Number(item.caloriesBurned),
     }));
@@ -351,26 +717,58 @@ export const Dashboard: React.FC = () => {
     setIsScannerOpen(false);
     setLoading(true);
     setError(null);
+    setNotice(null);
     try {
-        const foodData = await lookupBarcode(barcode);
+        const foodData = (await findProduct(barcode))?.item;
         if (foodData) {
             const newLogEntry: LoggedMealItem = {
                 type: 'meal',
                 id: `meal_barcode_${Date.now()}`,
-                timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                timestamp: createEntryTimestamp(selectedDate),
+                timeZone: getUserTimeZone(),
                 items: [foodData],
+                mealSlot,
             };
             saveLog([newLogEntry, ...dailyLog]);
+            // Open the item straight away so the amount actually eaten can be entered.
+            setEditingItem({ mealId: newLogEntry.id, itemIndex: 0, data: foodData });
         } else {
-            setError(`Product not found for barcode ${barcode}. Please try logging it manually.`);
+            setLabelBarcode(barcode);
+            setLogMode('snap');
         }
-    } catch (err: any) {
-        setError(err.message || 'An unknown error occurred while looking up the barcode.');
+    } catch (err) {
+        // Nothing cached and no connection: look it up and log it once we're back online.
+        console.warn(`Queued barcode ${barcode} until it can be looked up`, err);
+        queueScan({ barcode, date: selectedDate, timestamp: createEntryTimestamp(selectedDate), timeZone: getUserTimeZone(), mealSlot });
+        setNotice(`Couldn't reach the food database. Barcode ${barcode} will be logged to ${MEAL_SLOT_LABELS[mealSlot]} automatically when you're back online.`);
     } finally {
         setLoading(false);
     }
   };
 
+  const handleRefreshProduct = async () => {
+    const barcode = editingItem?.data.barcode;
+    if (!editingItem || !barcode) return;
+    setIsRefreshingProduct(true);
+    setError(null);
+    try {
+      const product = await findProduct(barcode, { refresh: true });
+      if (!product) {
+        setError(`Barcode ${barcode} is no longer in the food database.`);
+        return;
+      }
+      // Keep the amount that was entered when the fresh data has the same unit.
+      const current = getPortion(editingItem.data);
+      const basis = getPortionOptions(product.item).find(option => option.unit === current.unit && option.label === current.label);
+      const refreshed = basis ? setPortionQuantity(switchPortionBasis(product.item, basis), current.quantity) : product.item;
+      setEditingItem({ ...editingItem, data: { ...refreshed, foodName: editingItem.data.foodName } });
+    } catch (err: any) {
+      setError(err.message || 'An unknown error occurred while refreshing the product.');
+    } finally {
+      setIsRefreshingProduct(false);
+    }
+  };
+
   const handleDeleteItem = (entryId: string, itemIndex?: number) => {
     if (!window.confirm("Are you sure you want to delete this log entry?")) return;
     
@@ -391,6 +789,47 @@ export const Dashboard: React.FC = () => {
     saveLog(newLog);
   };
 
+  const handleQuickLog = (groups: QuickLogGroup[]) => {
+      if (groups.length === 0) return;
+      const now = Date.now();
+      // Newest first, like every other entry added to the log.
+      const newEntries = groups.map((group, index): LoggedMealItem => ({
+          type: 'meal',
+          id: `meal_${now}_${index}`,
+          timestamp: createEntryTimestamp(selectedDate),
+          timeZone: getUserTimeZone(),
+          items: group.items.map(item => ({ ...item })),
+          mealSlot: group.mealSlot,
+      })).reverse();
+      saveLog([...newEntries, ...dailyLog]);
+  };
+
+  const handleLogPlannedMeal = (meal: Meal, planMealId: string) => {
+      const newEntry: LoggedMealItem = {
+          type: 'meal',
+          id: `meal_${Date.now()}`,
+          timestamp: createEntryTimestamp(selectedDate),
+          timeZone: getUserTimeZone(),
+          items: [plannedMealToFoodItem(meal)],
+          mealSlot: meal.mealSlot,
+          planMealId,
+      };
+      saveLog([newEntry, ...dailyLog]);
+  };
+
+  const handleSaveAsMeal = (entry: LoggedMealItem) => {
+      const slot = getMealSlot(entry);
+      const suggestedName = entry.items.length === 1 ? entry.items[0].foodName : `My ${MEAL_SLOT_LABELS[slot].toLowerCase()}`;
+      const name = window.prompt("Name this meal so you can log it again in one tap:", suggestedName);
+      if (name && name.trim()) {
+          saveMeal(name, entry.items, slot);
+      }
+  };
+
+  const handleChangeMealSlot = (entryId: string, slot: MealSlot) => {
+      saveLog(dailyLog.map(entry => (entry.id === entryId && entry.type === 'meal') ? { ...entry, mealSlot: slot } : entry));
+  };
+
   const handleStartEdit = (mealId: string, item: MacroData, itemIndex: number) => {
       setEditingItem({ mealId, itemIndex, data: { ...item } });
   };
@@ -416,15 +855,30 @@ export const Dashboard: React.FC = () => {
   const handleEditFormChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       if (!editingItem) return;
       const { name, value } = e.target;
-      setEditingItem({
-          ...editingItem,
-          data: {
-              ...editingItem.data,
-              [name]: name === 'foodName' ? value : (value === '' ? 0 : parseFloat(value))
-          }
-      });
+      const data = name === 'foodName'
+          ? { ...editingItem.data, foodName: value }
+          : setNutrientTotal(editingItem.data, name as keyof Nutrients, value === '' ? 0 : parseFloat(value));
+      setEditingItem({ ...editingItem, data });
+  };
+
+  const handleEditQuantityChange = (value: string) => {
+      if (!editingItem) return;
+      const quantity = parseFloat(value);
+      if (isNaN(quantity) || quantity < 0) return;
+      setEditingItem({ ...editingItem, data: setPortionQuantity(editingItem.data, quantity) });
+  };
+
+  const handleEditUnitChange = (optionIndex: number) => {
+      if (!editingItem) return;
+      const option = getPortionOptions(editingItem.data)[optionIndex];
+      if (option) setEditingItem({ ...editingItem, data: switchPortionBasis(editingItem.data, option) });
   };
 
+  const loggedItems = useMemo(
+    () => dailyLog.flatMap(entry => (entry.type === 'meal' ? entry.items : [])),
+    [dailyLog]
+  );
+
   const totals = dailyLog.reduce((acc, entry) => {
     if (entry.type === 'meal') {
       entry.items.forEach(item => {
@@ -439,22 +893,134 @@ export const Dashboard: React.FC = () => {
     return acc;
   }, { calories: 0, protein: 0, carbohydrates: 0, fat: 0 });
 
+  const mealsBySlot = useMemo(() => {
+    const groups: Record<MealSlot, LoggedMealItem[]> = { breakfast: [], lunch: [], dinner: [], snacks: [] };
+    dailyLog.forEach(entry => {
+      if (entry.type === 'meal') groups[getMealSlot(entry)].push(entry);
+    });
+    return groups;
+  }, [dailyLog]);
+  const activityEntries = dailyLog.filter((entry): entry is LoggedExerciseItem => entry.type === 'exercise');
+  const editedProduct = editingItem?.data.barcode ? getCachedProduct(editingItem.data.barcode) : null;
+
+  const renderMealEntry = (entry: LoggedMealItem) => (
+    <div key={entry.id} className="bg-teal-50/50 dark:bg-gray-700/30 p-4 rounded-lg border border-teal-100 dark:border-teal-900">
+        <div className="flex justify-between items-center mb-3 gap-2">
+            <h4 className="font-bold text-teal-700 dark:text-teal-300">Meal at {formatEntryTime(entry)}</h4>
+            <button onClick={() => handleSaveAsMeal(entry)} className="ml-auto text-gray-400 hover:text-teal-500 p-1" title="Save as meal"><CopyPlus size={16} /></button>
+            <select
+                value={getMealSlot(entry)}
+                onChange={(e) => handleChangeMealSlot(entry.id, e.target.value as MealSlot)}
+                className="text-xs font-semibold bg-white dark:bg-gray-800 border border-teal-200 dark:border-gray-600 rounded-md px-1 py-0.5 text-gray-600 dark:text-gray-300"
+                aria-label="Meal"
+            >
+                {MEAL_SLOTS.map(slot => <option key={slot.id} value={slot.id}>{slot.label}</option>)}
+            </select>
+        </div>
+        {entry.hasImage && <MealPhoto entryId={entry.id} />}
+        <div className="space-y-3">
+          {entry.items.map((item, index) => (
+              <div key={index} className="flex justify-between items-start group">
+                  <div>
+                      <p className="font-semibold text-gray-800 dark:text-gray-200">
+                          <span className="capitalize">{item.foodName}</span>
+                          {item.portion && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{formatPortion(item.portion)}</span>}
+                      </p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {Math.round(item.calories)} kcal &bull; P: {formatGrams(item, 'protein')} | C: {formatGrams(item, 'carbohydrates')} | F: {formatGrams(item, 'fat')}
+                      </p>
+                  </div>
+                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0 ml-2">
+                      <button onClick={() => saveCustomFood(item)} className="text-gray-400 hover:text-teal-500 p-1" title={findCustomFoodByName(customFoods, item.foodName) ? "Update in My Foods" : "Save to My Foods"}>
+                          <Bookmark size={16} fill={findCustomFoodByName(customFoods, item.foodName) ? 'currentColor' : 'none'} />
+                      </button>
+                      <button onClick={() => handleStartEdit(entry.id, item, index)} className="text-gray-400 hover:text-teal-500 p-1" title="Edit item"><Edit size={16} /></button>
+                      <button onClick={() => handleDeleteItem(entry.id, index)} className="text-gray-400 hover:text-red-500 p-1" title="Delete item"><Trash2 size={16} /></button>
+                  </div>
+              </div>
+          ))}
+        </div>
+    </div>
+  );
+
+  const renderActivityEntry = (entry: LoggedExerciseItem) => (
+     <div key={entry.id} className="bg-sky-50/50 dark:bg-gray-700/30 p-4 rounded-lg border border-sky-100 dark:border-sky-900 flex justify-between items-center group">
+        <div className="flex items-center gap-3">
+           <Dumbbell className="text-sky-500" size={20}/>
+           <div>
+              <p className="font-semibold text-gray-800 dark:text-gray-200 capitalize">{entry.name}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Activity at {formatEntryTime(entry)}</p>
+           </div>
+        </div>
+         <div className="flex items-center gap-2">
+            <p className="font-semibold text-red-500">- {entry.caloriesBurned} kcal</p>
+            <button onClick={() => handleDeleteItem(entry.id)} className="text-gray-400 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity" title="Delete activity">
+                <Trash2 size={16} />
+            </button>
+        </div>
+     </div>
+  );
+
   return (
     <div className="max-w-4xl mx-auto space-y-8">
+       {pendingAnalysis && (
+          <MealReviewSheet
+            key={pendingAnalysis.version}
+            items={pendingAnalysis.items}
+            previewUrl={(photos.find(photo => photo.kind === 'meal' || !leftoversMode) || photos[0])?.previewUrl ?? null}
+            isReanalyzing={isReanalyzing}
+            error={error}
+            onReanalyze={handleReanalyze}
+            onConfirm={handleConfirmAnalysis}
+            onCancel={handleDiscardAnalysis}
+          />
+       )}
+       {isMyFoodsOpen && <MyFoodsModal onClose={() => setIsMyFoodsOpen(false)} />}
+       {contributionBarcode && (
+         <ContributeProductModal barcode={contributionBarcode} onClose={() => setContributionBarcode(null)} onSaved={handleContributionSaved} />
+       )}
        {isScannerOpen && <BarcodeScanner onScan={handleBarcodeScanned} onClose={() => setIsScannerOpen(false)} />}
       <div>
         <h1 className="text-3xl md:text-4xl font-bold text-gray-800 dark:text-gray-100">Your Daily Dashboard</h1>
         <p className="text-md text-gray-500 dark:text-gray-400 mt-1">Keep track of your nutrition, one snap at a time.</p>
       </div>
 
+      <div className="bg-white dark:bg-gray-800 p-3 rounded-2xl shadow-lg flex items-center justify-between gap-2">
+        <button onClick={() => setSelectedDate(shiftDateKey(selectedDate, -1))} className="p-2 rounded-full text-gray-500 hover:text-teal-500 hover:bg-teal-50 dark:hover:bg-gray-700 transition-colors" aria-label="Previous day">
+          <ChevronLeft size={24} />
+        </button>
+        <label className="relative flex items-center gap-2 font-semibold text-gray-700 dark:text-gray-200 cursor-pointer">
+          <CalendarDays size={20} className="text-teal-500" />
+          <span>{dayLabel}</span>
+          <input
+            type="date"
+            value={selectedDate}
+            max={getTodayKey()}
+            onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+            aria-label="Pick a date"
+          />
+        </label>
+        <div className="flex items-center gap-1">
+          {!isToday && (
+            <button onClick={() => setSelectedDate(getTodayKey())} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300 px-2">
+              Today
+            </button>
+          )}
+          <button onClick={() => setSelectedDate(shiftDateKey(selectedDate, 1))} disabled={isToday} className="p-2 rounded-full text-gray-500 hover:text-teal-500 hover:bg-teal-50 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500 transition-colors" aria-label="Next day">
+            <ChevronRight size={24} />
+          </button>
+        </div>
+      </div>
+
       <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
-        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Today's Overview</h2>
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{isToday ? "Today's" : `${dayLabel}'s`} Overview</h2>
         <div className="grid grid-cols-2 gap-4 text-center">
-            <ProgressRing label="Net Calories" value={totals.calories} goal={DAILY_GOALS.calories} color="text-teal-500" />
+            <ProgressRing label="Net Calories" value={totals.calories} goal={goals.calories} color="text-teal-500" />
             <div className="flex flex-col items-center justify-center">
                 <GlassWater size={32} className="text-blue-400"/>
                 <p className="mt-2 text-sm font-semibold text-gray-600 dark:text-gray-300">Water</p>
-                <p className="text-xl font-bold text-gray-700 dark:text-gray-200 my-1">{waterIntake} / {DAILY_GOALS.water}</p>
+                <p className="text-xl font-bold text-gray-700 dark:text-gray-200 my-1">{waterIntake} / {goals.water}</p>
                  <p className="text-xs text-gray-400 mb-2">glasses</p>
                 <div className="flex items-center gap-4">
                     <button onClick={() => handleWaterChange(-1)} disabled={waterIntake <= 0} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50 transition-colors" aria-label="Remove one glass of water">
@@ -471,11 +1037,15 @@ export const Dashboard: React.FC = () => {
       <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
         <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Macronutrient Breakdown</h2>
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
-            <ProgressRing label="Protein" value={totals.protein} goal={DAILY_GOALS.protein} unit="g" color="text-sky-500" />
-            <ProgressRing label="Carbs" value={totals.carbohydrates} goal={DAILY_GOALS.carbohydrates} unit="g" color="text-amber-500" />
-            <ProgressRing label="Fat" value={totals.fat} goal={DAILY_GOALS.fat} unit="g" color="text-red-500" />
+            <ProgressRing label="Protein" value={totals.protein} goal={goals.protein} unit="g" color="text-sky-500" />
+            <ProgressRing label="Carbs" value={totals.carbohydrates} goal={goals.carbohydrates} unit="g" color="text-amber-500" />
+            <ProgressRing label="Fat" value={totals.fat} goal={goals.fat} unit="g" color="text-red-500" />
         </div>
       </div>
+
+      <MicronutrientPanel items={loggedItems} age={userProfile.age} />
+
+      <PlannedMealsPanel selectedDate={selectedDate} dailyLog={dailyLog} onLog={handleLogPlannedMeal} />
       
       <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
         <div className="flex justify-between items-center mb-4">
@@ -483,47 +1053,224 @@ export const Dashboard: React.FC = () => {
             <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-1">
                 <button onClick={() => setLogMode('snap')} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${logMode === 'snap' ? 'bg-white dark:bg-gray-600 text-teal-600 dark:text-teal-300 shadow-sm' : 'text-gray-500 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>Snap</button>
                 <button onClick={() => setLogMode('manual')} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${logMode === 'manual' ? 'bg-white dark:bg-gray-600 text-teal-600 dark:text-teal-300 shadow-sm' : 'text-gray-500 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>Manual</button>
+                <button onClick={() => setLogMode('recent')} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${logMode === 'recent' ? 'bg-white dark:bg-gray-600 text-teal-600 dark:text-teal-300 shadow-sm' : 'text-gray-500 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>Recent</button>
                 <button onClick={() => setLogMode('activity')} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${logMode === 'activity' ? 'bg-white dark:bg-gray-600 text-teal-600 dark:text-teal-300 shadow-sm' : 'text-gray-500 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>Activity</button>
             </div>
         </div>
 
+        {logMode !== 'activity' && (
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <span className="text-sm text-gray-500 dark:text-gray-400">Add to</span>
+                {MEAL_SLOTS.map(slot => (
+                    <button key={slot.id} onClick={() => setMealSlot(slot.id)} className={`px-3 py-1 text-sm font-semibold rounded-full border transition-colors ${mealSlot === slot.id ? 'bg-teal-500 border-teal-500 text-white' : 'border-teal-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-teal-50 dark:hover:bg-gray-700'}`}>
+                        {MEAL_SLOT_LABELS[slot.id]}
+                    </button>
+                ))}
+            </div>
+        )}
+
         {logMode === 'snap' && (
             <div className="space-y-4">
-                <div className="border-2 border-dashed border-teal-300 dark:border-teal-700 rounded-xl p-8 text-center cursor-pointer hover:bg-teal-100/60 dark:hover:bg-gray-700/50 transition-colors" onClick={() => fileInputRef.current?.click()}>
+                {photos.length < MAX_PHOTOS && (
+                <div className={`border-2 border-dashed border-teal-300 dark:border-teal-700 rounded-xl text-center cursor-pointer hover:bg-teal-100/60 dark:hover:bg-gray-700/50 transition-colors ${photos.length > 0 ? 'p-4' : 'p-8'}`} onClick={() => fileInputRef.current?.click()}>
                     <div className="flex flex-col items-center text-gray-600 dark:text-gray-400">
-                    <Camera size={40} className="mb-3 text-teal-500" />
-                    <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Snap Your Meal</h3>
-                    <p className="text-sm">Click to upload a photo for analysis.</p>
+                    {photos.length > 0 ? (
+                        <p className="text-sm font-semibold flex items-center gap-2"><PlusCircle size={18} className="text-teal-500" /> Add another angle, the leftovers or a nutrition label</p>
+                    ) : (
+                        <>
+                        <Camera size={40} className="mb-3 text-teal-500" />
+                        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Snap Your Meal</h3>
+                        <p className="text-sm">Click to upload one or more photos for analysis.</p>
+                        </>
+                    )}
                     </div>
-                    <input type="file" accept="image/*" className="hidden" ref={fileInputRef} onChange={handleFileChange} aria-label="Upload meal photo"/>
+                    <input type="file" accept="image/*" multiple className="hidden" ref={fileInputRef} onChange={handleFileChange} aria-label="Upload meal photos"/>
                 </div>
-                {previewUrl &&
+                )}
+                {photos.length > 0 &&
                     <div className="space-y-4">
-                        <div className="relative">
-                            <img src={previewUrl} alt="Food preview" className="w-full h-auto max-h-60 object-contain rounded-xl" />
-                            <button onClick={clearSelection} className="absolute top-2 right-2 bg-black/50 text-white rounded-full p-1.5 hover:bg-black/70" aria-label="Clear image selection"><X size={20} /></button>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            {photos.map(photo => (
+                                <div key={photo.id} className="relative">
+                                    <img src={photo.previewUrl} alt="Food preview" className={`w-full h-32 object-cover rounded-xl ${leftoversMode && photo.kind === 'leftovers' ? 'ring-2 ring-amber-400' : ''}`} />
+                                    <button onClick={() => handleRemovePhoto(photo.id)} className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1 hover:bg-black/70" aria-label="Remove photo"><X size={16} /></button>
+                                    {leftoversMode && (
+                                        <button onClick={() => togglePhotoKind(photo.id)} className={`absolute bottom-1 left-1 right-1 text-xs font-semibold py-1 rounded-md ${photo.kind === 'leftovers' ? 'bg-amber-400 text-gray-900' : 'bg-black/60 text-white'}`}>
+                                            {photo.kind === 'leftovers' ? 'Leftovers' : 'As served'}
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
                         </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                            <input type="checkbox" checked={leftoversMode} onChange={(e) => setLeftoversMode(e.target.checked)} className="rounded text-teal-500 focus:ring-teal-400" />
+                            Leftovers mode: subtract what was left on the plate (tap a photo's label to mark it)
+                        </label>
+                        <div className="flex flex-col sm:flex-row gap-2 items-center">
                          <button onClick={handleAnalyzeClick} disabled={loading} className="w-full sm:w-auto flex items-center justify-center bg-teal-500 text-white font-bold py-3 px-8 rounded-full hover:bg-teal-600 transition-transform transform hover:scale-105 disabled:bg-teal-300 disabled:cursor-not-allowed">
-                                {loading ? <Spinner /> : <><Zap size={18} className="mr-2"/> Analyze & Log</>}
+                                {loading ? <Spinner /> : <><Zap size={18} className="mr-2"/> Analyze {photos.length > 1 ? `${photos.length} Photos` : ''}</>}
                          </button>
+                         <button onClick={clearSelection} disabled={loading} className="text-sm font-semibold text-gray-500 hover:text-red-500 disabled:opacity-50">Clear photos</button>
+                        </div>
                     </div>
                 }
-                 <div className="text-center pt-2">
+                 {pendingScans.length > 0 && (
+                     <div className="flex items-center gap-3 p-3 rounded-lg bg-gray-100 dark:bg-gray-700/50 text-sm text-gray-600 dark:text-gray-300">
+                         <WifiOff size={16} className="flex-shrink-0" />
+                         <p className="flex-grow">{pendingScans.length} {pendingScans.length === 1 ? 'scan is' : 'scans are'} waiting for a connection and will be logged automatically.</p>
+                         <button onClick={handleResolvePendingScans} className="font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">Retry now</button>
+                     </div>
+                 )}
+                 {labelBarcode && (
+                     <div className="flex items-start gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+                         <div className="flex-grow space-y-1">
+                             <p>No product found for barcode {labelBarcode}. Scan its Nutrition Facts label instead and it will be recognised next time, or log it manually.</p>
+                             <button onClick={() => setContributionBarcode(labelBarcode)} className="font-semibold underline hover:text-amber-900 dark:hover:text-amber-100">Add this product with its name and brand</button>
+                         </div>
+                         <button onClick={() => setLabelBarcode(null)} className="text-amber-600 hover:text-amber-800 dark:text-amber-300" aria-label="Dismiss"><X size={16} /></button>
+                     </div>
+                 )}
+                 <div className="flex flex-col sm:flex-row gap-2 justify-center pt-2">
                      <button onClick={() => setIsScannerOpen(true)} className="w-full sm:w-auto flex items-center justify-center bg-gray-500 text-white font-bold py-3 px-8 rounded-full hover:bg-gray-600 transition-transform transform hover:scale-105">
                         <Barcode size={18} className="mr-2"/> Scan Barcode
                     </button>
+                     <button onClick={() => labelInputRef.current?.click()} disabled={isReadingLabel} className={`w-full sm:w-auto flex items-center justify-center text-white font-bold py-3 px-8 rounded-full transition-transform transform hover:scale-105 disabled:cursor-not-allowed ${labelBarcode ? 'bg-teal-500 hover:bg-teal-600 disabled:bg-teal-300' : 'bg-gray-500 hover:bg-gray-600 disabled:bg-gray-400'}`}>
+                        {isReadingLabel ? <Spinner /> : <><ScanText size={18} className="mr-2"/> Scan Nutrition Label</>}
+                    </button>
+                     <input type="file" accept="image/*" capture="environment" className="hidden" ref={labelInputRef} onChange={handleLabelFileChange} aria-label="Upload a nutrition label photo"/>
                  </div>
             </div>
         )}
 
+        {logMode === 'recent' && (
+            <QuickLogPanel selectedDate={selectedDate} dailyLog={dailyLog} mealSlot={mealSlot} onLog={handleQuickLog} />
+        )}
+
         {logMode === 'manual' && (
             <div className="space-y-4 animate-in fade-in-0 duration-300">
-                 {manualItems.map((item, index) => (
+                 <div className="flex flex-wrap items-center gap-2">
+                     <button onClick={() => setIsMyFoodsOpen(true)} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">
+                         <BookOpen size={16} /> My Foods
+                     </button>
+                     {searchCustomFoods(customFoods, '', 'frequency', 5).map(food => (
+                         <button key={food.id} onClick={() => handleQuickLogCustomFood(food.id)} title={`Log ${food.foodName} (${Math.round(food.calories)} kcal)`} className="px-3 py-1 text-sm rounded-full border border-teal-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-teal-50 dark:hover:bg-gray-700 capitalize">
+                             + {food.foodName}
+                         </button>
+                     ))}
+                 </div>
+                 <form onSubmit={(e) => { e.preventDefault(); handleDescribeMeal(); }} className="flex gap-2">
+                     <input
+                         type="text"
+                         value={mealDescription}
+                         onChange={(e) => setMealDescription(e.target.value)}
+                         placeholder='Describe your meal, e.g. "two scrambled eggs and a slice of sourdough with butter"'
+                         className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800"
+                     />
+                     <button type="submit" disabled={!mealDescription.trim()} className="flex-shrink-0 bg-teal-500 text-white font-semibold py-2 px-4 rounded-md hover:bg-teal-600 disabled:bg-gray-400 transition-colors flex items-center gap-1">
+                         <Zap size={16} /> Fill in
+                     </button>
+                 </form>
+                 {manualItems.map((item, index) => item.isLoading ? (
+                    <div key={item.lookupId || index} className="p-4 rounded-lg border border-teal-100 dark:border-teal-800 bg-teal-50/50 dark:bg-gray-700/30 flex items-center gap-3">
+                        <Spinner borderColor="border-teal-500" />
+                        <p className="text-sm text-gray-600 dark:text-gray-300">Estimating &ldquo;{item.foodName}&rdquo;&hellip;</p>
+                    </div>
+                 ) : (
                     <div key={index} className="p-4 rounded-lg border border-teal-100 dark:border-teal-800 bg-teal-50/50 dark:bg-gray-700/30 space-y-3">
                         <div className="flex items-center gap-2">
-                             <input type="text" placeholder="Food Name" value={item.foodName || ''} onChange={(e) => handleManualItemChange(index, 'foodName', e.target.value)} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800"/>
+                             <div className="relative w-full">
+                                 <input
+                                     type="text"
+                                     placeholder="Food Name"
+                                     value={item.foodName || ''}
+                                     onChange={(e) => { handleManualItemChange(index, 'foodName', e.target.value); setSuggestionRow(index); }}
+                                     onFocus={() => setSuggestionRow(index)}
+                                     onBlur={() => setSuggestionRow(null)}
+                                     className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800"
+                                 />
+                                 {suggestionRow === index && !item.source && (() => {
+                                     const savedMatches = searchCustomFoods(customFoods, item.foodName || '');
+                                     const databaseMatches = searchGenericFoods(item.foodName || '');
+                                     const query = (item.foodName || '').trim();
+                                     const canSearchProducts = query.length >= 3;
+                                     const productResults = productSearch?.row === index && productSearch.query === query ? productSearch.results : undefined;
+                                     if (savedMatches.length === 0 && databaseMatches.length === 0 && !canSearchProducts) return null;
+                                     return (
+                                         <ul className="absolute z-20 left-0 right-0 mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-72 overflow-y-auto">
+                                             {savedMatches.length > 0 && <li className="px-3 pt-2 text-xs font-semibold uppercase text-gray-400">My Foods</li>}
+                                             {savedMatches.map(food => (
+                                                 <li key={food.id}>
+                                                     <button
+                                                         type="button"
+                                                         onMouseDown={(e) => { e.preventDefault(); handleSelectCustomFood(index, food.id); }}
+                                                         className="w-full text-left px-3 py-2 hover:bg-teal-50 dark:hover:bg-gray-700"
+                                                     >
+                                                         <span className="font-semibold text-gray-800 dark:text-gray-200 capitalize">{food.foodName}</span>
+                                                         <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                                                             {food.portion ? `${formatPortion(food.portion)} · ` : ''}{Math.round(food.calories)} kcal
+                                                         </span>
+                                                     </button>
+                                                 </li>
+                                             ))}
+                                             {databaseMatches.length > 0 && <li className="px-3 pt-2 text-xs font-semibold uppercase text-gray-400">Foods</li>}
+                                             {databaseMatches.map(food => (
+                                                 <li key={food.id}>
+                                                     <button
+                                                         type="button"
+                                                         onMouseDown={(e) => { e.preventDefault(); handleSelectGenericFood(index, food); }}
+                                                         className="w-full text-left px-3 py-2 hover:bg-teal-50 dark:hover:bg-gray-700"
+                                                     >
+                                                         <span className="font-semibold text-gray-800 dark:text-gray-200">{food.name}</span>
+                                                         <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                                                             {food.portions[0].label} · {Math.round(food.portions[0].perUnit.calories)} kcal
+                                                         </span>
+                                                     </button>
+                                                 </li>
+                                             ))}
+                                             {canSearchProducts && <li className="px-3 pt-2 text-xs font-semibold uppercase text-gray-400">Packaged products</li>}
+                                             {canSearchProducts && productResults === undefined && (
+                                                 <li>
+                                                     <button
+                                                         type="button"
+                                                         onMouseDown={(e) => { e.preventDefault(); handleSearchProducts(index, query); }}
+                                                         className="w-full text-left px-3 py-2 text-sm text-teal-600 dark:text-teal-400 hover:bg-teal-50 dark:hover:bg-gray-700"
+                                                     >
+                                                         Search packaged products for &ldquo;{query}&rdquo;
+                                                     </button>
+                                                 </li>
+                                             )}
+                                             {canSearchProducts && productResults === null && (
+                                                 <li className="px-3 py-2 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400"><Spinner borderColor="border-teal-500" /> Searching&hellip;</li>
+                                             )}
+                                             {productResults?.length === 0 && <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No products found.</li>}
+                                             {productResults?.map((product, resultIndex) => (
+                                                 <li key={product.barcode || resultIndex}>
+                                                     <button
+                                                         type="button"
+                                                         onMouseDown={(e) => { e.preventDefault(); fillManualRow(index, product); }}
+                                                         className="w-full text-left px-3 py-2 hover:bg-teal-50 dark:hover:bg-gray-700"
+                                                     >
+                                                         <span className="font-semibold text-gray-800 dark:text-gray-200">{product.foodName}</span>
+                                                         <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                                                             {product.portion ? `${formatPortion(product.portion)} · ` : ''}{Math.round(product.calories)} kcal
+                                                         </span>
+                                                     </button>
+                                                 </li>
+                                             ))}
+                                         </ul>
+                                     );
+                                 })()}
+                             </div>
+                             <input type="number" min="0" step="any" placeholder="Amt" value={item.quantity ?? ''} onChange={(e) => handleManualItemChange(index, 'quantity', e.target.value)} aria-label="Amount" className="w-20 p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800" />
+                             <select value={item.unit || 'serving'} onChange={(e) => handleManualItemChange(index, 'unit', e.target.value)} aria-label="Unit" className="p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800">
+                                 {PORTION_UNITS.map(unit => <option key={unit.id} value={unit.id}>{unit.label}</option>)}
+                             </select>
+                             <button onClick={() => handleSaveManualRowToMyFoods(index)} className="text-gray-400 hover:text-teal-500" title="Save to My Foods"><Bookmark size={20} fill={item.customFoodId ? 'currentColor' : 'none'} /></button>
                              <button onClick={() => removeManualItem(index)} disabled={manualItems.length <= 1} className="text-gray-400 hover:text-red-500 disabled:opacity-50"><Trash2 size={20}/></button>
                         </div>
+                        {item.source?.portion?.label && item.unit === item.source.portion.unit && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Amount in {formatPortionUnit(item.source.portion, 2)}; nutrition updates as you change it.</p>
+                        )}
                         <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
                              <input type="number" placeholder="Cals" value={item.calories ?? ''} onChange={(e) => handleManualItemChange(index, 'calories', e.target.value)} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800" />
                              <input type="number" placeholder="Protein (g)" value={item.protein ?? ''} onChange={(e) => handleManualItemChange(index, 'protein', e.target.value)} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-800" />
@@ -537,7 +1284,7 @@ export const Dashboard: React.FC = () => {
                 <button onClick={addManualItem} className="text-teal-600 dark:text-teal-400 font-semibold text-sm flex items-center gap-1 hover:text-teal-800 dark:hover:text-teal-300"> <PlusCircle size={16}/> Add another item </button>
 
                 <div className="text-center mt-4">
-                    <button onClick={handleManualLogSubmit} className="bg-teal-500 text-white font-bold py-3 px-8 rounded-full hover:bg-teal-600 transition-transform transform hover:scale-105 w-full sm:w-auto flex items-center justify-center mx-auto">
+                    <button onClick={handleManualLogSubmit} disabled={manualItems.some(item => item.isLoading)} className="bg-teal-500 text-white font-bold py-3 px-8 rounded-full hover:bg-teal-600 transition-transform transform hover:scale-105 w-full sm:w-auto flex items-center justify-center mx-auto disabled:bg-gray-400">
                         <Edit size={18} className="mr-2"/> Add to Log
                     </button>
                 </div>
@@ -570,6 +1317,12 @@ export const Dashboard: React.FC = () => {
              </div>
         )}
 
+        {notice && (
+            <div className="flex items-start gap-3 bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-800 text-teal-800 dark:text-teal-200 px-4 py-3 rounded-lg mt-4" role="status">
+                <p className="flex-grow">{notice}</p>
+                <button onClick={() => setNotice(null)} aria-label="Dismiss"><X size={16} /></button>
+            </div>
+        )}
         {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mt-4" role="alert">{error}</div>}
       </div>
 
@@ -579,12 +1332,31 @@ export const Dashboard: React.FC = () => {
                 <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Edit Food Item</h3>
                 <div className="grid grid-cols-2 gap-4">
                     <input type="text" name="foodName" value={editingItem.data.foodName} onChange={handleEditFormChange} placeholder="Food Name" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none col-span-2 bg-white dark:bg-gray-700"/>
+                    <div className="col-span-2 flex gap-2">
+                        <input type="number" min="0" step="any" value={getPortion(editingItem.data).quantity} onChange={(e) => handleEditQuantityChange(e.target.value)} aria-label="Amount" className="w-24 p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
+                        <select value={0} onChange={(e) => handleEditUnitChange(Number(e.target.value))} aria-label="Unit" className="flex-grow p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700">
+                            {getPortionOptions(editingItem.data).map((option, index) => (
+                                <option key={index} value={index}>{formatPortionUnit(option, index === 0 ? getPortion(editingItem.data).quantity : 2)}</option>
+                            ))}
+                        </select>
+                    </div>
                     <input type="number" name="calories" value={editingItem.data.calories} onChange={handleEditFormChange} placeholder="Calories" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                     <input type="number" name="protein" value={editingItem.data.protein} onChange={handleEditFormChange} placeholder="Protein (g)" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                     <input type="number" name="carbohydrates" value={editingItem.data.carbohydrates} onChange={handleEditFormChange} placeholder="Carbs (g)" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                     <input type="number" name="fat" value={editingItem.data.fat} onChange={handleEditFormChange} placeholder="Fat (g)" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                     <input type="number" name="sugar" value={editingItem.data.sugar} onChange={handleEditFormChange} placeholder="Sugar (g)" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none col-span-2 bg-white dark:bg-gray-700" />
                 </div>
+                {editingItem.data.barcode && (
+                    <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                        <span>
+                            Barcode {editingItem.data.barcode}
+                            {editedProduct && ` · product data from ${new Date(editedProduct.fetchedAt).toLocaleDateString()}`}
+                        </span>
+                        <button onClick={handleRefreshProduct} disabled={isRefreshingProduct} className="flex items-center gap-1 font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300 disabled:opacity-50">
+                            <RefreshCw size={12} className={isRefreshingProduct ? 'animate-spin' : ''} /> Refresh
+                        </button>
+                    </div>
+                )}
                 <div className="flex justify-end gap-4 mt-4">
                     <button onClick={handleCancelEdit} className="text-gray-600 dark:text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">Cancel</button>
                     <button onClick={handleSaveEdit} className="bg-teal-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-teal-600 transition-colors flex items-center gap-2"><Save size={16}/> Save</button>
@@ -595,7 +1367,7 @@ export const Dashboard: React.FC = () => {
 
       <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
         <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Today's Log</h2>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{isToday ? "Today's" : `${dayLabel}'s`} Log</h2>
             {dailyLog.length > 0 && 
                 <button onClick={clearDailyLog} className="flex items-center gap-1 text-sm text-gray-500 hover:text-red-500 transition-colors">
                     <Trash2 size={14} /> Clear Log
@@ -604,52 +1376,37 @@ export const Dashboard: React.FC = () => {
         </div>
         <div className="space-y-4">
             {dailyLog.length > 0 ? (
-                dailyLog.map(entry => (
-                    <div key={entry.id}>
-                    {entry.type === 'meal' ? (
-                        <div className="bg-teal-50/50 dark:bg-gray-700/30 p-4 rounded-lg border border-teal-100 dark:border-teal-900">
-                            <div className="flex justify-between items-center mb-3">
-                                <h4 className="font-bold text-teal-700 dark:text-teal-300">Meal at {entry.timestamp}</h4>
-                            </div>
-                            <div className="space-y-3">
-                              {entry.items.map((item, index) => (
-                                  <div key={index} className="flex justify-between items-start group">
-                                      <div>
-                                          <p className="font-semibold text-gray-800 dark:text-gray-200 capitalize">{item.foodName}</p>
-                                          <p className="text-sm text-gray-600 dark:text-gray-400">
-                                              {Math.round(item.calories)} kcal &bull; P: {Math.round(item.protein)}g | C: {Math.round(item.carbohydrates)}g | F: {Math.round(item.fat)}g
-                                          </p>
-                                      </div>
-                                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0 ml-2">
-                                          <button onClick={() => handleStartEdit(entry.id, item, index)} className="text-gray-400 hover:text-teal-500 p-1" title="Edit item"><Edit size={16} /></button>
-                                          <button onClick={() => handleDeleteItem(entry.id, index)} className="text-gray-400 hover:text-red-500 p-1" title="Delete item"><Trash2 size={16} /></button>
-                                      </div>
-                                  </div>
-                              ))}
+                <>
+                {MEAL_SLOTS.map(slot => {
+                    const entries = mealsBySlot[slot.id];
+                    if (entries.length === 0) return null;
+                    const subtotal = entries.reduce((sum, entry) => sum + entry.items.reduce((itemSum, item) => itemSum + item.calories, 0), 0);
+                    const budget = userProfile.mealSlotBudgets?.[slot.id];
+                    return (
+                        <div key={slot.id} className="space-y-3">
+                            <div className="flex justify-between items-baseline">
+                                <h3 className="font-bold text-gray-700 dark:text-gray-200">{slot.label}</h3>
+                                <p className={`text-sm font-semibold ${budget && subtotal > budget ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                                    {Math.round(subtotal)}{budget ? ` / ${budget}` : ''} kcal
+                                </p>
                             </div>
+                            {entries.map(renderMealEntry)}
                         </div>
-                    ) : (
-                         <div className="bg-sky-50/50 dark:bg-gray-700/30 p-4 rounded-lg border border-sky-100 dark:border-sky-900 flex justify-between items-center group">
-                            <div className="flex items-center gap-3">
-                               <Dumbbell className="text-sky-500" size={20}/>
-                               <div>
-                                  <p className="font-semibold text-gray-800 dark:text-gray-200 capitalize">{entry.name}</p>
-                                  <p className="text-sm text-gray-600 dark:text-gray-400">Activity at {entry.timestamp}</p>
-                               </div>
-                            </div>
-                             <div className="flex items-center gap-2">
-                                <p className="font-semibold text-red-500">- {entry.caloriesBurned} kcal</p>
-                                <button onClick={() => handleDeleteItem(entry.id)} className="text-gray-400 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity" title="Delete activity">
-                                    <Trash2 size={16} />
-                                </button>
-                            </div>
-                         </div>
-                    )}
+                    );
+                })}
+                {activityEntries.length > 0 && (
+                    <div className="space-y-3">
+                        <div className="flex justify-between items-baseline">
+                            <h3 className="font-bold text-gray-700 dark:text-gray-200">Activity</h3>
+                            <p className="text-sm font-semibold text-red-500">- {activityEntries.reduce((sum, entry) => sum + entry.caloriesBurned, 0)} kcal</p>
+                        </div>
+                        {activityEntries.map(renderActivityEntry)}
                     </div>
-                ))
+                )}
+                </>
             ) : (
                 <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-                    <p>No meals logged yet today.</p>
+                    <p>{isToday ? 'No meals logged yet today.' : `Nothing logged for ${dayLabel}.`}</p>
                     <p className="text-sm">Log a meal or drink some water to get started!</p>
                 </div>
             )}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Check, Download, RotateCcw, Share2, ShoppingCart, X } from 'lucide-react';
+import { favoritesStore, groceryListStore, mealPlanHistoryStore } from '../services/storage';
+import { useStoredValue } from '../hooks/useStoredValue';
+import { getRecipeKey } from '../services/recipes';
+import {
+    buildGroceryList,
+    downloadGroceryList,
+    formatGroceryItem,
+    groupGroceryItems,
+    planToGrocerySources,
+    recipesToGrocerySources,
+    shareGroceryList,
+    toggleGroceryItem,
+} from '../services/groceryList';
+
+interface GroceryListModalProps {
+    onClose: () => void;
+    initialPlanId?: string; // preselected when opened from a meal plan
+}
+
+export const GroceryListModal: React.FC<GroceryListModalProps> = ({ onClose, initialPlanId }) => {
+    const [list, setList] = useStoredValue(groceryListStore);
+    const [mealPlanHistory] = useStoredValue(mealPlanHistoryStore);
+    const [favorites] = useStoredValue(favoritesStore);
+
+    // Plans from before meals came with ingredients can't be shopped for.
+    const shoppablePlans = mealPlanHistory.filter(plan => planToGrocerySources(plan).length > 0);
+    const [isBuilding, setIsBuilding] = useState(!list || !!initialPlanId);
+    const [planId, setPlanId] = useState<string>(() =>
+        shoppablePlans.some(plan => plan.id === initialPlanId) ? initialPlanId! : ''
+    );
+    const [recipeKeys, setRecipeKeys] = useState<Set<string>>(new Set());
+    const [shareNotice, setShareNotice] = useState<string | null>(null);
+
+    const toggleRecipe = (key: string) => {
+        setRecipeKeys(current => {
+            const next = new Set(current);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const handleBuild = () => {
+        const plan = shoppablePlans.find(p => p.id === planId);
+        const recipes = favorites.filter(recipe => recipeKeys.has(getRecipeKey(recipe) || recipe.title));
+        const titleParts = [
+            ...(plan ? [`Meal plan from ${new Date(plan.createdAt).toLocaleDateString()}`] : []),
+            ...(recipes.length > 0 ? [`${recipes.length} recipe${recipes.length === 1 ? '' : 's'}`] : []),
+        ];
+        const sources = [...(plan ? planToGrocerySources(plan) : []), ...recipesToGrocerySources(recipes)];
+        setList(buildGroceryList(`Grocery list: ${titleParts.join(' + ')}`, sources));
+        setIsBuilding(false);
+    };
+
+    const handleShare = async () => {
+        if (!list) return;
+        try {
+            const result = await shareGroceryList(list);
+            setShareNotice(result === 'copied' ? 'Copied to your clipboard.' : null);
+        } catch (err) {
+            console.error("Failed to share grocery list", err);
+            setShareNotice("Couldn't share the list. Try downloading it instead.");
+        }
+    };
+
+    const checkedCount = list?.items.filter(item => item.checked).length ?? 0;
+    const canBuild = planId !== '' || recipeKeys.size > 0;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-end sm:items-center justify-center sm:p-4 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-300"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-gray-800 w-full sm:max-w-lg max-h-[92vh] rounded-t-2xl sm:rounded-2xl shadow-2xl flex flex-col animate-in slide-in-from-bottom-5 duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-6 pb-4">
+                    <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2"><ShoppingCart size={20} /> Grocery List</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Close"><X size={20} /></button>
+                </div>
+
+                {isBuilding ? (
+                    <div className="overflow-y-auto px-6 pb-6 space-y-5">
+                        <div>
+                            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">From a meal plan</p>
+                            {shoppablePlans.length > 0 ? (
+                                <select value={planId} onChange={(e) => setPlanId(e.target.value)} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100" aria-label="Meal plan">
+                                    <option value="">No meal plan</option>
+                                    {shoppablePlans.map(plan => (
+                                        <option key={plan.id} value={plan.id}>Plan from {new Date(plan.createdAt).toLocaleDateString()} ({plan.plan.length} days)</option>
+                                    ))}
+                                </select>
+                            ) : (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Generate a meal plan in your profile to shop for it here.</p>
+                            )}
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Add saved recipes</p>
+                            {favorites.length > 0 ? (
+                                <div className="space-y-1 max-h-48 overflow-y-auto">
+                                    {favorites.map(recipe => {
+                                        const key = getRecipeKey(recipe) || recipe.title;
+                                        return (
+                                            <label key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 p-1 rounded hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                                <input type="checkbox" checked={recipeKeys.has(key)} onChange={() => toggleRecipe(key)} className="rounded text-teal-500 focus:ring-teal-400" />
+                                                {recipe.title}
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Recipes you save with the ❤️ show up here.</p>
+                            )}
+                        </div>
+                        <div className="flex justify-end gap-3">
+                            {list && <button onClick={() => setIsBuilding(false)} className="text-gray-600 dark:text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">Back to list</button>}
+                            <button onClick={handleBuild} disabled={!canBuild} className="bg-teal-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-teal-600 transition-colors disabled:bg-teal-300 disabled:cursor-not-allowed">Build list</button>
+                        </div>
+                    </div>
+                ) : list && (
+                    <>
+                        <div className="px-6 pb-2">
+                            <p className="text-sm text-gray-600 dark:text-gray-300">{list.title}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{checkedCount} of {list.items.length} items in the basket</p>
+                        </div>
+                        <div className="overflow-y-auto px-6 space-y-4">
+                            {groupGroceryItems(list.items).map(group => (
+                                <div key={group.id}>
+                                    <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">{group.label}</p>
+                                    <ul className="space-y-1">
+                                        {group.items.map(item => (
+                                            <li key={item.id}>
+                                                <button onClick={() => toggleGroceryItem(item.id)} className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700/50" title={item.sources.join('\n')}>
+                                                    <span className={`flex-shrink-0 w-5 h-5 rounded border flex items-center justify-center ${item.checked ? 'bg-teal-500 border-teal-500 text-white' : 'border-gray-300 dark:border-gray-600'}`}>
+                                                        {item.checked && <Check size={14} />}
+                                                    </span>
+                                                    <span className={`text-sm ${item.checked ? 'line-through text-gray-400' : 'text-gray-800 dark:text-gray-100'}`}>{formatGroceryItem(item)}</span>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                        {shareNotice && <p className="px-6 pt-2 text-sm text-teal-700 dark:text-teal-300" role="status">{shareNotice}</p>}
+                        <div className="flex justify-between items-center gap-3 p-6 pt-4">
+                            <button onClick={() => setIsBuilding(true)} className="flex items-center gap-1 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-teal-600">
+                                <RotateCcw size={16} /> New list
+                            </button>
+                            <div className="flex gap-3">
+                                <button onClick={() => downloadGroceryList(list)} className="flex items-center gap-1 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-teal-600" title="Download as a text file">
+                                    <Download size={16} /> Download
+                                </button>
+                                <button onClick={handleShare} className="bg-teal-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-teal-600 transition-colors flex items-center gap-2">
+                                    <Share2 size={16} /> Share
+                                </button>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
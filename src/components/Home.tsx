@@ -4,6 +4,8 @@ import { getFeaturedRecipes, generateRecipeImage } from '../services/geminiServi
 import type { FeaturedRecipe, Recipe } from '../types';
 import { Spinner } from './Spinner';
 import { RecipeModal } from './RecipeModal';
+import { favoritesStore } from '../services/storage';
+import { useStoredValue } from '../hooks/useStoredValue';
 
 interface HomeProps {
     setActiveView: (view: 'dashboard' | 'recipes' | 'community' | 'progress') => void;
@@ -38,28 +40,9 @@ export const Home: React.FC<HomeProps> = ({ setActiveView }) => {
   const [loading, setLoading] = useState(true);
   
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | FeaturedRecipe | null>(null);
-  const [favorites, setFavorites] = useState<Recipe[]>([]);
+  const [favorites, setFavorites] = useStoredValue(favoritesStore);
   const [favoritingId, setFavoritingId] = useState<string | null>(null);
 
-  useEffect(() => {
-    try {
-        const savedFavorites = localStorage.getItem('nutrisnap_favorites');
-        if (savedFavorites) {
-            setFavorites(JSON.parse(savedFavorites));
-        }
-    } catch (error) {
-        console.error("Could not load favorites from localStorage", error);
-    }
-  }, []);
-
-  useEffect(() => {
-    try {
-        localStorage.setItem('nutrisnap_favorites', JSON.stringify(favorites));
-    } catch (error) {
-        console.error("Could not save favorites to localStorage", error);
-    }
-  }, [favorites]);
-
   useEffect(() => {
     const loadFeatured = async () => {
       try {
@@ -115,6 +98,8 @@ export const Home: React.FC<HomeProps> = ({ setActiveView }) => {
           imageSearchQuery: recipe.imageSearchQuery,
           ingredients: recipe.ingredients,
           instructions: recipe.instructions,
+          servings: recipe.servings,
+          ingredientNutrition: recipe.ingredientNutrition,
       };
       setFavorites(prev => [...prev, newFavorite]);
     } catch (error) {
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import type { MealPlanRequest } from '../types';
+import { CUISINE_OPTIONS, MEAL_PLAN_LIMITS, PREP_TIME_OPTIONS } from '../services/mealPlans';
+
+interface MealPlanOptionsProps {
+    request: MealPlanRequest;
+    onChange: (changes: Partial<MealPlanRequest>) => void;
+}
+
+const inputClass = "w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400";
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+export const MealPlanOptions: React.FC<MealPlanOptionsProps> = ({ request, onChange }) => {
+    // Typed as free text and split on commas once the field loses focus.
+    const [excludedText, setExcludedText] = useState(request.excludedIngredients.join(', '));
+
+    useEffect(() => {
+        setExcludedText(request.excludedIngredients.join(', '));
+    }, [request.excludedIngredients]);
+
+    const handleDaysChange = (value: string) => {
+        const days = parseInt(value, 10);
+        if (isNaN(days)) return;
+        onChange({ days: Math.min(MEAL_PLAN_LIMITS.days.max, Math.max(MEAL_PLAN_LIMITS.days.min, days)) });
+    };
+
+    const commitExcluded = () => {
+        onChange({ excludedIngredients: excludedText.split(',').map(item => item.trim()).filter(Boolean) });
+    };
+
+    const toggleCuisine = (cuisine: string) => {
+        onChange({
+            cuisines: request.cuisines.includes(cuisine)
+                ? request.cuisines.filter(c => c !== cuisine)
+                : [...request.cuisines, cuisine],
+        });
+    };
+
+    return (
+        <details className="text-left mb-4 rounded-lg border border-teal-100 dark:border-gray-700">
+            <summary className="flex items-center gap-2 p-3 cursor-pointer text-sm font-semibold text-teal-600 dark:text-teal-400">
+                <SlidersHorizontal size={16} /> Plan options: {request.days} day{request.days === 1 ? '' : 's'}, {request.mealsPerDay} meal{request.mealsPerDay === 1 ? '' : 's'}{request.snacksPerDay > 0 ? ` + ${request.snacksPerDay} snack${request.snacksPerDay === 1 ? '' : 's'}` : ''} a day
+            </summary>
+            <div className="p-3 pt-0 grid grid-cols-2 sm:grid-cols-3 gap-3">
+                <label className={labelClass}>
+                    Days
+                    <input type="number" min={MEAL_PLAN_LIMITS.days.min} max={MEAL_PLAN_LIMITS.days.max} value={request.days} onChange={(e) => handleDaysChange(e.target.value)} className={`${inputClass} mt-1`} />
+                </label>
+                <label className={labelClass}>
+                    Meals per day
+                    <select value={request.mealsPerDay} onChange={(e) => onChange({ mealsPerDay: Number(e.target.value) })} className={`${inputClass} mt-1`}>
+                        {range(MEAL_PLAN_LIMITS.mealsPerDay.min, MEAL_PLAN_LIMITS.mealsPerDay.max).map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </label>
+                <label className={labelClass}>
+                    Snacks per day
+                    <select value={request.snacksPerDay} onChange={(e) => onChange({ snacksPerDay: Number(e.target.value) })} className={`${inputClass} mt-1`}>
+                        {range(MEAL_PLAN_LIMITS.snacksPerDay.min, MEAL_PLAN_LIMITS.snacksPerDay.max).map(n => <option key={n} value={n}>{n === 0 ? 'None' : n}</option>)}
+                    </select>
+                </label>
+                <label className={labelClass}>
+                    Prep time per meal
+                    <select value={request.maxPrepMinutes ?? ''} onChange={(e) => onChange({ maxPrepMinutes: e.target.value ? Number(e.target.value) : undefined })} className={`${inputClass} mt-1`}>
+                        <option value="">Any</option>
+                        {PREP_TIME_OPTIONS.map(minutes => <option key={minutes} value={minutes}>Up to {minutes} min</option>)}
+                    </select>
+                </label>
+                <label className={labelClass}>
+                    Budget
+                    <select value={request.budget ?? ''} onChange={(e) => onChange({ budget: (e.target.value || undefined) as MealPlanRequest['budget'] })} className={`${inputClass} mt-1`}>
+                        <option value="">Any</option>
+                        <option value="low">Low</option>
+                        <option value="moderate">Moderate</option>
+                    </select>
+                </label>
+                <label className={`${labelClass} col-span-2 sm:col-span-1`}>
+                    Leave out
+                    <input type="text" value={excludedText} onChange={(e) => setExcludedText(e.target.value)} onBlur={commitExcluded} placeholder="e.g. mushrooms, shrimp" className={`${inputClass} mt-1`} />
+                </label>
+                <div className="col-span-2 sm:col-span-3">
+                    <p className={labelClass}>Cuisines</p>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                        {CUISINE_OPTIONS.map(cuisine => (
+                            <button
+                                key={cuisine}
+                                type="button"
+                                onClick={() => toggleCuisine(cuisine)}
+                                className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${request.cuisines.includes(cuisine) ? 'bg-teal-500 text-white' : 'bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300 hover:bg-teal-200 dark:hover:bg-teal-800'}`}
+                            >
+                                {cuisine}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </details>
+    );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Check, PlusCircle, RefreshCw, Trash2, X } from 'lucide-react';
+import type { MacroData, Nutrients } from '../types';
+import { createPortionedItem, formatPortionUnit, getPortion, getPortionOptions, setNutrientTotal, setPortionQuantity, switchPortionBasis } from '../services/portions';
+import { Spinner } from './Spinner';
+
+interface MealReviewSheetProps {
+  items: MacroData[];
+  previewUrl: string | null;
+  isReanalyzing: boolean;
+  error?: string | null;
+  onReanalyze: (hint: string) => void;
+  onConfirm: (items: MacroData[]) => void;
+  onCancel: () => void;
+}
+
+const NUTRIENT_FIELDS: { key: keyof Nutrients; label: string }[] = [
+  { key: 'calories', label: 'kcal' },
+  { key: 'protein', label: 'Protein (g)' },
+  { key: 'carbohydrates', label: 'Carbs (g)' },
+  { key: 'fat', label: 'Fat (g)' },
+];
+
+const confidenceBadge = (confidence?: number) => {
+  if (confidence === undefined) return null;
+  const percent = Math.round(confidence * 100);
+  const style = confidence >= 0.8
+    ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
+    : confidence >= 0.5
+      ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+      : 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300';
+  return <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${style}`} title="How sure the AI is about this item">{percent}% sure</span>;
+};
+
+const inputClass = "w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700";
+
+export const MealReviewSheet: React.FC<MealReviewSheetProps> = ({ items: initialItems, previewUrl, isReanalyzing, error, onReanalyze, onConfirm, onCancel }) => {
+  const [items, setItems] = useState<MacroData[]>(initialItems);
+  const [hint, setHint] = useState('');
+
+  const updateItem = (index: number, update: (item: MacroData) => MacroData) => {
+    // Any correction means the AI's confidence no longer describes the item.
+    setItems(current => current.map((item, i) => {
+      if (i !== index) return item;
+      const { confidence, ...rest } = update(item);
+      return rest;
+    }));
+  };
+
+  const handleQuantityChange = (index: number, value: string) => {
+    const quantity = parseFloat(value);
+    if (isNaN(quantity) || quantity < 0) return;
+    updateItem(index, item => setPortionQuantity(item, quantity));
+  };
+
+  const handleUnitChange = (index: number, optionIndex: number) => {
+    updateItem(index, item => {
+      const option = getPortionOptions(item)[optionIndex];
+      return option ? switchPortionBasis(item, option) : item;
+    });
+  };
+
+  const handleNutrientChange = (index: number, key: keyof Nutrients, value: string) => {
+    updateItem(index, item => setNutrientTotal(item, key, value === '' ? 0 : parseFloat(value)));
+  };
+
+  const handleAddItem = () => {
+    const empty: Nutrients = { calories: 0, protein: 0, carbohydrates: 0, fat: 0, sugar: 0 };
+    setItems(current => [...current, createPortionedItem('', { unit: 'serving', perUnit: empty }, 1)]);
+  };
+
+  const validItems = items.filter(item => item.foodName.trim());
+  const totalCalories = Math.round(validItems.reduce((sum, item) => sum + item.calories, 0));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center sm:p-4 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-300">
+      <div className="bg-white dark:bg-gray-800 w-full sm:max-w-2xl max-h-[92vh] rounded-t-2xl sm:rounded-2xl shadow-2xl flex flex-col animate-in slide-in-from-bottom-5 duration-300">
+        <div className="flex justify-between items-center p-6 pb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Review Your Meal</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Check what the AI found before it's added to your log.</p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Discard analysis"><X size={24} /></button>
+        </div>
+
+        <div className="px-6 flex-1 overflow-y-auto custom-scrollbar space-y-4">
+          {previewUrl && <img src={previewUrl} alt="Analyzed meal" className="w-full max-h-40 object-cover rounded-lg" />}
+
+          {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+
+          {items.length === 0 && <p className="text-center text-gray-500 dark:text-gray-400 py-4">No food items left. Add one or re-analyze with a hint.</p>}
+
+          {items.map((item, index) => {
+            const portion = getPortion(item);
+            return (
+              <div key={index} className="p-4 rounded-lg border border-teal-100 dark:border-teal-800 bg-teal-50/50 dark:bg-gray-700/30 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input type="text" value={item.foodName} onChange={(e) => updateItem(index, current => ({ ...current, foodName: e.target.value }))} placeholder="Food Name" className={inputClass} />
+                  {confidenceBadge(item.confidence)}
+                  <button onClick={() => setItems(current => current.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-500 p-1" title="Remove item"><Trash2 size={18} /></button>
+                </div>
+                <div className="flex gap-2">
+                  <input type="number" min="0" step="any" value={portion.quantity} onChange={(e) => handleQuantityChange(index, e.target.value)} aria-label="Amount" className={`${inputClass} w-24`} />
+                  <select value={0} onChange={(e) => handleUnitChange(index, Number(e.target.value))} aria-label="Unit" className={`${inputClass} flex-grow`}>
+                    {getPortionOptions(item).map((option, optionIndex) => (
+                      <option key={optionIndex} value={optionIndex}>{formatPortionUnit(option, optionIndex === 0 ? portion.quantity : 2)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {NUTRIENT_FIELDS.map(({ key, label }) => (
+                    <label key={key} className="text-xs text-gray-500 dark:text-gray-400">
+                      {label}
+                      <input type="number" min="0" value={item[key] ?? ''} onChange={(e) => handleNutrientChange(index, key, e.target.value)} className={`${inputClass} mt-1`} />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          <button onClick={handleAddItem} className="text-teal-600 dark:text-teal-400 font-semibold text-sm flex items-center gap-1 hover:text-teal-800 dark:hover:text-teal-300"><PlusCircle size={16} /> Add a missed item</button>
+
+          <form onSubmit={(e) => { e.preventDefault(); if (hint.trim()) onReanalyze(hint.trim()); }} className="pt-2 pb-4">
+            <label className="text-sm font-semibold text-gray-700 dark:text-gray-200">Something off? Tell the AI and re-analyze</label>
+            <div className="flex gap-2 mt-1">
+              <input type="text" value={hint} onChange={(e) => setHint(e.target.value)} placeholder='e.g. "this is oat milk, not dairy"' className={inputClass} disabled={isReanalyzing} />
+              <button type="submit" disabled={isReanalyzing || !hint.trim()} className="flex-shrink-0 flex items-center gap-1 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold py-2 px-4 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                {isReanalyzing ? <Spinner borderColor="border-teal-500" /> : <RefreshCw size={16} />} Re-analyze
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="flex justify-between items-center gap-4 p-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+          <p className="font-semibold text-gray-700 dark:text-gray-200">{totalCalories} kcal total</p>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="text-gray-600 dark:text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">Discard</button>
+            <button onClick={() => onConfirm(validItems.map(({ confidence, ...item }) => ({ ...item, foodName: item.foodName.trim() })))} disabled={validItems.length === 0 || isReanalyzing} className="bg-teal-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-teal-600 disabled:bg-gray-400 transition-colors flex items-center gap-2">
+              <Check size={16} /> Log Meal
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import type { Meal, MealPlanRequest, UserProfile } from '../types';
+import { suggestMealSwaps } from '../services/geminiService';
+import { getPlanMealLabel } from '../services/mealPlans';
+import { Spinner } from './Spinner';
+
+interface MealSwapModalProps {
+    profile: UserProfile;
+    meal: Meal;
+    request: MealPlanRequest;
+    onClose: () => void;
+    onSelect: (meal: Meal) => void;
+}
+
+export const MealSwapModal: React.FC<MealSwapModalProps> = ({ profile, meal, request, onClose, onSelect }) => {
+    const [alternatives, setAlternatives] = useState<Meal[] | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [attempt, setAttempt] = useState(0);
+    // Everything offered so far, so "Show other options" brings new ones.
+    const shownNames = useRef<string[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+        suggestMealSwaps(profile, meal, request, shownNames.current)
+            .then(result => {
+                if (cancelled) return;
+                shownNames.current = [...shownNames.current, ...result.map(alternative => alternative.name)];
+                setAlternatives(result);
+            })
+            .catch((err: Error) => {
+                if (!cancelled) setError(err.message || 'An unknown error occurred.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    // Only asks again when the user wants other options, not on every parent render.
+    }, [attempt]);
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-end sm:items-center justify-center sm:p-4 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-300"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-gray-800 w-full sm:max-w-lg max-h-[92vh] rounded-t-2xl sm:rounded-2xl shadow-2xl flex flex-col animate-in slide-in-from-bottom-5 duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-start p-6 pb-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Swap {getPlanMealLabel(meal)}</h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Instead of {meal.name} ({meal.calories} kcal, {meal.protein}g protein)</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Close"><X size={20} /></button>
+                </div>
+
+                <div className="overflow-y-auto px-6 pb-6 space-y-3">
+                    {isLoading && <div className="flex justify-center p-8"><Spinner borderColor="border-teal-500" /></div>}
+                    {error && !isLoading && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+                    {!isLoading && alternatives?.map((alternative, index) => (
+                        <button
+                            key={index}
+                            onClick={() => onSelect(alternative)}
+                            className="w-full text-left bg-teal-50/70 dark:bg-gray-700/50 p-4 rounded-lg border border-teal-100 dark:border-teal-800 hover:border-teal-400 dark:hover:border-teal-500 transition-colors"
+                        >
+                            <h4 className="font-semibold text-gray-800 dark:text-gray-200">{alternative.name}</h4>
+                            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{alternative.description}</p>
+                            <p className="text-xs text-gray-500 mt-2">{alternative.calories} kcal &bull; {alternative.protein}g Protein</p>
+                        </button>
+                    ))}
+                    {!isLoading && (
+                        <button onClick={() => setAttempt(n => n + 1)} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">
+                            <RefreshCw size={14} /> Show other options
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,58 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { MacroData } from '../types';
+import { MICRONUTRIENTS, formatMicronutrient, getDailyValues, sumMicronutrients } from '../services/micronutrients';
+
+interface MicronutrientPanelProps {
+  items: MacroData[];
+  age?: number;
+}
+
+export const MicronutrientPanel: React.FC<MicronutrientPanelProps> = ({ items, age }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { totals, itemCounts, itemCount } = useMemo(() => sumMicronutrients(items), [items]);
+  const dailyValues = useMemo(() => getDailyValues(age), [age]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center" aria-expanded={isOpen}>
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Vitamins &amp; Minerals</h2>
+        <ChevronDown className={`text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Percent of the recommended daily value{age ? ` for age ${age}` : ''}. Foods without data for a nutrient aren't counted.
+          </p>
+          {MICRONUTRIENTS.map(info => {
+            const total = totals[info.key];
+            const dailyValue = dailyValues[info.key];
+            const percent = total !== undefined ? Math.round((total / dailyValue) * 100) : null;
+            const isOver = info.isLimit && percent !== null && percent > 100;
+            return (
+              <div key={info.key}>
+                <div className="flex justify-between text-sm">
+                  <span className="font-semibold text-gray-700 dark:text-gray-200">
+                    {info.label}
+                    {info.isLimit && <span className="ml-1 text-xs font-normal text-gray-400">limit</span>}
+                  </span>
+                  <span className={isOver ? 'text-red-500 font-semibold' : 'text-gray-500 dark:text-gray-400'}>
+                    {total !== undefined
+                      ? `${formatMicronutrient(info, total)} / ${formatMicronutrient(info, dailyValue)} (${percent}%)`
+                      : 'No data'}
+                  </span>
+                </div>
+                <div className="h-2 mt-1 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full ${isOver ? 'bg-red-500' : 'bg-teal-500'}`} style={{ width: `${Math.min(percent ?? 0, 100)}%` }} />
+                </div>
+                {total !== undefined && (itemCounts[info.key] || 0) < itemCount && (
+                  <p className="text-xs text-gray-400 mt-0.5">From {itemCounts[info.key]} of {itemCount} foods</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
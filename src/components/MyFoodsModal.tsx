@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import type { CustomFood, MacroData, Nutrients } from '../types';
+import { X, Edit, Trash2, Save, Search } from 'lucide-react';
+import { customFoodsStore } from '../services/storage';
+import { deleteCustomFood, searchCustomFoods, sortCustomFoods, toFoodItem, updateCustomFood, type CustomFoodSort } from '../services/customFoods';
+import { formatPortion, setNutrientTotal } from '../services/portions';
+import { useStoredValue } from '../hooks/useStoredValue';
+
+interface MyFoodsModalProps {
+    onClose: () => void;
+}
+
+const EDIT_FIELDS: { key: keyof Nutrients; label: string }[] = [
+    { key: 'calories', label: 'Calories' },
+    { key: 'protein', label: 'Protein (g)' },
+    { key: 'carbohydrates', label: 'Carbs (g)' },
+    { key: 'fat', label: 'Fat (g)' },
+    { key: 'sugar', label: 'Sugar (g)' },
+];
+
+export const MyFoodsModal: React.FC<MyFoodsModalProps> = ({ onClose }) => {
+    const [foods] = useStoredValue(customFoodsStore);
+    const [sort, setSort] = useState<CustomFoodSort>('frequency');
+    const [query, setQuery] = useState('');
+    const [editing, setEditing] = useState<{ id: string; data: MacroData } | null>(null);
+
+    const visibleFoods = useMemo(
+        () => (query.trim() ? searchCustomFoods(foods, query, sort, foods.length) : sortCustomFoods(foods, sort)),
+        [foods, query, sort]
+    );
+
+    const handleEditChange = (field: 'foodName' | keyof Nutrients, value: string) => {
+        if (!editing) return;
+        const data = field === 'foodName'
+            ? { ...editing.data, foodName: value }
+            : setNutrientTotal(editing.data, field, value === '' ? 0 : parseFloat(value));
+        setEditing({ ...editing, data });
+    };
+
+    const handleSaveEdit = () => {
+        if (!editing || !editing.data.foodName.trim()) return;
+        updateCustomFood(editing.id, { ...editing.data, foodName: editing.data.foodName.trim() });
+        setEditing(null);
+    };
+
+    const handleDelete = (food: CustomFood) => {
+        if (window.confirm(`Remove "${food.foodName}" from My Foods?`)) {
+            deleteCustomFood(food.id);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-300"
+            onClick={onClose}
+        >
+            <div
+                className="relative bg-white dark:bg-gray-800 w-full max-w-lg max-h-[90vh] rounded-2xl shadow-2xl flex flex-col animate-in slide-in-from-bottom-5 duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-6 pb-4">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">My Foods</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Close">
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div className="px-6 flex items-center gap-2">
+                    <div className="relative flex-grow">
+                        <Search size={16} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+                        <input type="text" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search your foods" className="w-full pl-8 p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
+                    </div>
+                    <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-1 flex-shrink-0">
+                        {(['frequency', 'recency'] as CustomFoodSort[]).map(option => (
+                            <button key={option} onClick={() => setSort(option)} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${sort === option ? 'bg-white dark:bg-gray-600 text-teal-600 dark:text-teal-300 shadow-sm' : 'text-gray-500 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
+                                {option === 'frequency' ? 'Frequent' : 'Recent'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-3">
+                    {visibleFoods.length === 0 && (
+                        <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                            {foods.length === 0 ? 'Save foods from your log or the manual entry form to build your library.' : 'No foods match your search.'}
+                        </p>
+                    )}
+                    {visibleFoods.map(food => editing?.id === food.id ? (
+                        <div key={food.id} className="p-4 rounded-lg border border-teal-200 dark:border-teal-800 space-y-3">
+                            <input type="text" value={editing.data.foodName} onChange={(e) => handleEditChange('foodName', e.target.value)} placeholder="Food Name" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                                {EDIT_FIELDS.map(({ key, label }) => (
+                                    <input key={key} type="number" value={editing.data[key] ?? ''} onChange={(e) => handleEditChange(key, e.target.value)} placeholder={label} aria-label={label} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
+                                ))}
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setEditing(null)} className="text-gray-600 dark:text-gray-300 font-semibold py-1 px-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">Cancel</button>
+                                <button onClick={handleSaveEdit} className="bg-teal-500 text-white font-bold py-1 px-4 rounded-lg hover:bg-teal-600 transition-colors flex items-center gap-1"><Save size={14} /> Save</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div key={food.id} className="flex justify-between items-start group p-3 rounded-lg bg-teal-50/50 dark:bg-gray-700/30">
+                            <div>
+                                <p className="font-semibold text-gray-800 dark:text-gray-200">
+                                    <span className="capitalize">{food.foodName}</span>
+                                    {food.portion && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{formatPortion(food.portion)}</span>}
+                                </p>
+                                <p className="text-sm text-gray-600 dark:text-gray-400">
+                                    {Math.round(food.calories)} kcal &bull; P: {Math.round(food.protein)}g | C: {Math.round(food.carbohydrates)}g | F: {Math.round(food.fat)}g
+                                </p>
+                                <p className="text-xs text-gray-400">Logged {food.useCount} {food.useCount === 1 ? 'time' : 'times'}</p>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0 ml-2">
+                                <button onClick={() => setEditing({ id: food.id, data: toFoodItem(food) })} className="text-gray-400 hover:text-teal-500 p-1" title="Edit food"><Edit size={16} /></button>
+                                <button onClick={() => handleDelete(food)} className="text-gray-400 hover:text-red-500 p-1" title="Delete food"><Trash2 size={16} /></button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CalendarCheck, Check } from 'lucide-react';
+import type { DailyLogEntry, Meal } from '../types';
+import { activePlanStore, mealPlanHistoryStore } from '../services/storage';
+import { getActivePlanDay, getPlanMealId, getPlanMealLabel } from '../services/mealPlans';
+import { describeDateKey } from '../services/dateUtils';
+import { useStoredValue } from '../hooks/useStoredValue';
+
+interface PlannedMealsPanelProps {
+  selectedDate: string;
+  dailyLog: DailyLogEntry[];
+  onLog: (meal: Meal, planMealId: string) => void;
+}
+
+export const PlannedMealsPanel: React.FC<PlannedMealsPanelProps> = ({ selectedDate, dailyLog, onLog }) => {
+  const [activePlan] = useStoredValue(activePlanStore);
+  const [mealPlanHistory] = useStoredValue(mealPlanHistoryStore);
+
+  const planDay = getActivePlanDay(mealPlanHistory, activePlan, selectedDate);
+  if (!planDay) return null;
+
+  const loggedIds = new Set(dailyLog.map(entry => (entry.type === 'meal' ? entry.planMealId : undefined)).filter(Boolean));
+  const dateLabel = describeDateKey(selectedDate);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-baseline mb-4">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+          <CalendarCheck size={20} /> Planned for {dateLabel === 'Today' ? 'today' : dateLabel}
+        </h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{planDay.day.day} of {planDay.plan.plan.length}</span>
+      </div>
+      <div className="space-y-2">
+        {planDay.day.meals.map((meal, mealIndex) => {
+          const planMealId = getPlanMealId(planDay.rootId, planDay.dayIndex, mealIndex);
+          const isLogged = loggedIds.has(planMealId);
+          return (
+            <div key={planMealId} className="flex justify-between items-center gap-2 p-3 rounded-lg bg-teal-50/50 dark:bg-gray-700/30">
+              <div className="min-w-0">
+                <p className="text-xs font-semibold uppercase text-teal-600 dark:text-teal-400">{getPlanMealLabel(meal)}</p>
+                <p className="font-semibold text-gray-800 dark:text-gray-200 truncate">{meal.name}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{meal.calories} kcal &bull; {meal.protein}g protein</p>
+              </div>
+              {isLogged ? (
+                <span className="flex-shrink-0 flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400"><Check size={16} /> Logged</span>
+              ) : (
+                <button onClick={() => onLog(meal, planMealId)} className="flex-shrink-0 bg-teal-500 text-white text-sm font-semibold py-1 px-3 rounded-lg hover:bg-teal-600 transition-colors">Log</button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
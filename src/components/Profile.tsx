@@ -1,8 +1,18 @@
-import React, { useState, useEffect, useContext, ChangeEvent } from 'react';
-import type { UserProfile, MealPlan } from '../types';
-import { User, Edit3, Save, Zap, Heart, Utensils, Target, Leaf, History, ChevronDown, Flame, Moon, Sun } from 'lucide-react';
+import React, { useState, useEffect, useContext, useMemo, ChangeEvent } from 'react';
+import type { UserProfile, MealPlan, Meal, MealPlanRequest, NutritionGoals, MealSlot } from '../types';
+import { User, Edit3, Save, Zap, Heart, Utensils, Target, Leaf, History, ChevronDown, Flame, Moon, Sun, RotateCcw, ShoppingCart, RefreshCw, CalendarCheck } from 'lucide-react';
 import { generateMealPlan } from '../services/geminiService';
+import { getNutritionGoals, getRecommendedGoals } from '../services/goals';
+import { MEAL_SLOTS, SUGGESTED_SLOT_SHARES } from '../services/mealSlots';
+import { activePlanStore, mealPlanHistoryStore, mealPlanRequestStore } from '../services/storage';
+import { formatDateKey, getTodayKey } from '../services/dateUtils';
+import { planToGrocerySources } from '../services/groceryList';
+import { formatDeviation, getDayDeviation, getMealPlanTargets, getPlanMealLabel, replacePlanMeal, resolveMealPlanRequest, withDayTotals, type DayDeviation } from '../services/mealPlans';
+import { useStoredValue } from '../hooks/useStoredValue';
 import { Spinner } from './Spinner';
+import { GroceryListModal } from './GroceryListModal';
+import { MealPlanOptions } from './MealPlanOptions';
+import { MealSwapModal } from './MealSwapModal';
 import { ThemeContext } from '../App';
 
 
@@ -18,6 +28,15 @@ const lbsToKg = (lbs: number) => lbs / LBS_IN_KG;
 const cmToIn = (cm: number) => cm / CM_IN_INCH;
 const inToCm = (inches: number) => inches * CM_IN_INCH;
 
+type GoalOverrideKey = keyof NonNullable<UserProfile['goalOverrides']>;
+
+const GOAL_FIELDS: { key: GoalOverrideKey; label: string; unit: string }[] = [
+    { key: 'protein', label: 'Protein', unit: 'g' },
+    { key: 'carbohydrates', label: 'Carbs', unit: 'g' },
+    { key: 'fat', label: 'Fat', unit: 'g' },
+    { key: 'water', label: 'Water', unit: 'glasses' },
+];
+
 const UnitSwitch: React.FC<{
     options: readonly string[];
     selected: string;
@@ -103,8 +122,16 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
     const [weightInputValues, setWeightInputValues] = useState({ currentWeight: '', goalWeight: '' });
 
     const [mealPlan, setMealPlan] = useState<MealPlan | null>(null);
-    const [mealPlanHistory, setMealPlanHistory] = useState<MealPlan[]>([]);
+    const [mealPlanHistory, setMealPlanHistory] = useStoredValue(mealPlanHistoryStore);
+    const [savedPlanRequest, setSavedPlanRequest] = useStoredValue(mealPlanRequestStore);
+    const [activePlan, setActivePlan] = useStoredValue(activePlanStore);
+    const planRequest = resolveMealPlanRequest(savedPlanRequest);
+    // Older plans didn't record their targets; they're checked against today's.
+    const currentTargets = getMealPlanTargets(userProfile);
     const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+    // undefined = closed; a plan id (or '') = open with that plan preselected.
+    const [groceryPlanId, setGroceryPlanId] = useState<string | undefined>(undefined);
+    const [swapTarget, setSwapTarget] = useState<{ plan: MealPlan; dayIndex: number; mealIndex: number } | null>(null);
 
     const [mealPlanLoading, setMealPlanLoading] = useState(false);
     const [mealPlanError, setMealPlanError] = useState<string | null>(null);
@@ -117,17 +144,6 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
         });
     }, [userProfile]);
     
-    useEffect(() => {
-        try {
-            const savedHistory = localStorage.getItem('nutrisnap_mealPlanHistory');
-            if (savedHistory) {
-                setMealPlanHistory(JSON.parse(savedHistory));
-            }
-        } catch (error) {
-            console.error("Could not load meal plan history from localStorage", error);
-        }
-    }, []);
-
     const displayCurrentWeight = formData.currentWeight !== undefined
         ? (formData.weightUnit === 'lbs' ? kgToLbs(formData.currentWeight).toFixed(1) : formData.currentWeight.toFixed(1))
         : '';
@@ -187,6 +203,36 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
         }
     };
 
+    const handleGoalOverrideChange = (key: GoalOverrideKey, value: string) => {
+        const numericValue = parseFloat(value);
+        setFormData(prev => {
+            const goalOverrides = { ...prev.goalOverrides };
+            if (value === '' || isNaN(numericValue) || numericValue < 0) {
+                delete goalOverrides[key];
+            } else {
+                goalOverrides[key] = numericValue;
+            }
+            return { ...prev, goalOverrides };
+        });
+    };
+
+    const handleSlotBudgetChange = (slot: MealSlot, value: string) => {
+        const numericValue = parseInt(value, 10);
+        setFormData(prev => {
+            const mealSlotBudgets = { ...prev.mealSlotBudgets };
+            if (value === '' || isNaN(numericValue) || numericValue <= 0) {
+                delete mealSlotBudgets[slot];
+            } else {
+                mealSlotBudgets[slot] = numericValue;
+            }
+            return { ...prev, mealSlotBudgets };
+        });
+    };
+
+    const resetGoalOverrides = () => {
+        setFormData(prev => ({ ...prev, goalOverrides: {} }));
+    };
+
     const handleUnitChange = (field: 'height' | 'weight', unit: 'cm' | 'in' | 'kg' | 'lbs') => {
         const unitProp = `${field}Unit` as 'heightUnit' | 'weightUnit';
         setFormData(prev => ({ ...prev, [unitProp]: unit }));
@@ -197,7 +243,7 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
         
         if (formData.currentWeight !== undefined && formData.currentWeight !== userProfile.currentWeight) {
             const newHistoryEntry = {
-                date: new Date().toISOString().slice(0, 10),
+                date: getTodayKey(),
                 weight: formData.currentWeight
             };
             const existingHistory = updatedProfile.weightHistory || [];
@@ -209,12 +255,40 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
         setIsEditing(false);
     };
 
+    const handlePlanRequestChange = (changes: Partial<MealPlanRequest>) => {
+        setSavedPlanRequest(current => ({ ...resolveMealPlanRequest(current), ...changes }));
+    };
+
+    // Each swap is saved as a new version at the top of the history; the plan it came from is kept.
+    const handleSwapMeal = (meal: Meal) => {
+        if (!swapTarget) return;
+        const { plan, dayIndex, mealIndex } = swapTarget;
+        const updated = replacePlanMeal(plan, dayIndex, mealIndex, meal);
+        setMealPlanHistory(history => [updated, ...history]);
+        if (mealPlan?.id === plan.id) setMealPlan(updated);
+        if (activeHistoryId === plan.id) setActiveHistoryId(updated.id);
+        // Keep following the plan: the new version picks up on the same calendar days.
+        if (activePlan?.planId === plan.id) setActivePlan({ ...activePlan, planId: updated.id });
+        setSwapTarget(null);
+    };
+
+    const renderFollowButton = (plan: MealPlan) => activePlan?.planId === plan.id ? (
+        <div className="flex items-center gap-3 text-sm">
+            <span className="flex items-center gap-1 font-semibold text-teal-600 dark:text-teal-400"><CalendarCheck size={16} /> Following since {formatDateKey(activePlan.startDate, { month: 'short', day: 'numeric' })}</span>
+            <button onClick={() => setActivePlan(null)} className="font-semibold text-gray-500 dark:text-gray-400 hover:text-red-500">Stop</button>
+        </div>
+    ) : (
+        <button onClick={() => setActivePlan({ planId: plan.id, startDate: getTodayKey() })} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300" title="Show this plan's meals on the dashboard, starting today">
+            <CalendarCheck size={16} /> Follow this plan
+        </button>
+    );
+
     const handleGenerateMealPlan = async () => {
         setMealPlanLoading(true);
         setMealPlanError(null);
         setMealPlan(null);
         try {
-            const planData = await generateMealPlan(formData);
+            const planData = await generateMealPlan(formData, planRequest);
             const newPlan: MealPlan = {
                 ...planData,
                 id: `plan_${Date.now()}`,
@@ -222,9 +296,7 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
             };
             setMealPlan(newPlan);
 
-            const updatedHistory = [newPlan, ...mealPlanHistory];
-            setMealPlanHistory(updatedHistory);
-            localStorage.setItem('nutrisnap_mealPlanHistory', JSON.stringify(updatedHistory));
+            setMealPlanHistory(history => [newPlan, ...history]);
 
         } catch (err: any) {
             setMealPlanError(err.message);
@@ -240,6 +312,9 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
         : '';
 
 
+    const recommendedGoals = useMemo(() => getRecommendedGoals(formData), [formData]);
+    const activeGoals: NutritionGoals = useMemo(() => getNutritionGoals(formData), [formData]);
+
     const isProfileComplete = formData.age && formData.height && formData.currentWeight && formData.goalWeight && formData.activityLevel && formData.fitnessGoal;
     
     const activityLevels = ['Sedentary', 'Lightly Active', 'Moderately Active', 'Very Active', 'Extra Active'] as const;
@@ -308,6 +383,73 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
                     <InfoCard label="Daily Calorie Goal (Optional)" name="calorieGoal" value={formData.calorieGoal} unit="kcal" isEditing={isEditing} onChange={handleInputChange} icon={<Flame size={20} />} />
                 </div>
             </div>
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+                <div className="flex justify-between items-center mb-1">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Daily Targets</h2>
+                    {isEditing && formData.goalOverrides && Object.keys(formData.goalOverrides).length > 0 && (
+                        <button type="button" onClick={resetGoalOverrides} className="flex items-center gap-1 text-sm text-gray-500 hover:text-teal-500 transition-colors">
+                            <RotateCcw size={14} /> Use recommended
+                        </button>
+                    )}
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    Based on your {activeGoals.calories} kcal goal{formData.dietaryPreferences && formData.dietaryPreferences !== 'None' ? `, ${formData.dietaryPreferences} diet` : ''} and {formData.fitnessGoal ? `"${formData.fitnessGoal}" goal` : 'a balanced split'}. Leave a field empty to use the recommendation.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {GOAL_FIELDS.map(({ key, label, unit }) => {
+                        const override = formData.goalOverrides?.[key];
+                        return (
+                            <div key={key} className="bg-teal-50/70 dark:bg-gray-700/30 p-4 rounded-lg">
+                                <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+                                {isEditing ? (
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={override ?? ''}
+                                        onChange={e => handleGoalOverrideChange(key, e.target.value)}
+                                        placeholder={`${recommendedGoals[key]}`}
+                                        className="w-full bg-white dark:bg-gray-700 border border-teal-200 dark:border-gray-600 rounded-md p-1 mt-1 text-gray-800 dark:text-gray-200 font-semibold focus:ring-teal-400 focus:border-teal-400"
+                                    />
+                                ) : (
+                                    <p className="font-bold text-gray-800 dark:text-gray-200 text-lg">
+                                        {activeGoals[key]} {unit}
+                                        {override !== undefined && <span className="ml-1 text-xs font-normal text-teal-500">custom</span>}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <h3 className="font-semibold text-gray-700 dark:text-gray-200 mt-6 mb-1">Meal Budgets</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    Optional calorie budgets per meal, shown next to each meal on the Dashboard.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {MEAL_SLOTS.map(({ id, label }) => {
+                        const budget = formData.mealSlotBudgets?.[id];
+                        return (
+                            <div key={id} className="bg-teal-50/70 dark:bg-gray-700/30 p-4 rounded-lg">
+                                <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+                                {isEditing ? (
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={budget ?? ''}
+                                        onChange={e => handleSlotBudgetChange(id, e.target.value)}
+                                        placeholder={`${Math.round(activeGoals.calories * SUGGESTED_SLOT_SHARES[id])}`}
+                                        className="w-full bg-white dark:bg-gray-700 border border-teal-200 dark:border-gray-600 rounded-md p-1 mt-1 text-gray-800 dark:text-gray-200 font-semibold focus:ring-teal-400 focus:border-teal-400"
+                                    />
+                                ) : (
+                                    <p className="font-bold text-gray-800 dark:text-gray-200 text-lg">
+                                        {budget !== undefined ? `${budget} kcal` : <span className="text-gray-400 font-normal">Not set</span>}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
              <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
                 <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Settings</h2>
                 <div className="space-y-4">
@@ -330,6 +472,7 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
             <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg text-center">
                  <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-2">Personalized Meal Plan</h2>
                  <p className="text-gray-600 dark:text-gray-400 mb-4">Let our AI craft a custom meal plan based on your profile and goals.</p>
+                 <MealPlanOptions request={planRequest} onChange={handlePlanRequestChange} />
                  <button onClick={handleGenerateMealPlan} disabled={!isProfileComplete || mealPlanLoading} className="bg-teal-500 text-white font-bold py-3 px-8 rounded-full hover:bg-teal-600 transition-transform transform hover:scale-105 disabled:bg-teal-300 disabled:cursor-not-allowed">
                     {mealPlanLoading ? <Spinner /> : 'Generate My Plan'}
                  </button>
@@ -341,16 +484,25 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
             {mealPlan && !mealPlanLoading && (
                  <div className="space-y-6 animate-in fade-in-0 duration-500">
                     <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100 text-center">Your New Meal Plan</h2>
+                    <div className="flex justify-center items-center gap-6">
+                        <button onClick={() => setGroceryPlanId(mealPlan.id)} className="flex items-center gap-2 text-teal-600 dark:text-teal-400 font-semibold hover:text-teal-800 dark:hover:text-teal-300">
+                            <ShoppingCart size={18} /> Make a grocery list
+                        </button>
+                        {renderFollowButton(mealPlan)}
+                    </div>
                     {mealPlan.plan.map((daily, index) => (
                         <div key={index} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
                             <div className="flex justify-between items-center mb-4">
                                <h3 className="text-xl font-bold text-teal-600 dark:text-teal-400">{daily.day}</h3>
-                               <p className="font-semibold text-gray-700 dark:text-gray-200">{daily.totalCalories} kcal</p>
+                               <div className="flex items-center gap-2">
+                                   <DeviationBadge deviation={getDayDeviation(daily, mealPlan.targets ?? currentTargets)} />
+                                   <p className="font-semibold text-gray-700 dark:text-gray-200">{withDayTotals(daily).totalCalories} kcal</p>
+                               </div>
                             </div>
                             <div className="space-y-4">
-                                <MealCard meal={daily.breakfast} mealType="Breakfast" />
-                                <MealCard meal={daily.lunch} mealType="Lunch" />
-                                <MealCard meal={daily.dinner} mealType="Dinner" />
+                                {daily.meals.map((meal, mealIndex) => (
+                                    <MealCard key={mealIndex} meal={meal} mealType={getPlanMealLabel(meal)} onSwap={() => setSwapTarget({ plan: mealPlan, dayIndex: index, mealIndex })} />
+                                ))}
                             </div>
                         </div>
                     ))}
@@ -362,13 +514,18 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
             )}
             
             <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
-                <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2"><History size={20} /> Meal Plan History</h2>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2"><History size={20} /> Meal Plan History</h2>
+                    <button onClick={() => setGroceryPlanId('')} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">
+                        <ShoppingCart size={16} /> Grocery list
+                    </button>
+                </div>
                 {mealPlanHistory.length > 0 ? (
                     <div className="space-y-2">
                         {mealPlanHistory.map(plan => (
                              <div key={plan.id} className="border border-teal-100 dark:border-gray-700 rounded-lg">
                                 <button onClick={() => setActiveHistoryId(activeHistoryId === plan.id ? null : plan.id)} className="w-full flex justify-between items-center p-4 text-left">
-                                    <span className="font-semibold text-gray-700 dark:text-gray-200">Plan from {new Date(plan.createdAt).toLocaleDateString()}</span>
+                                    <span className="font-semibold text-gray-700 dark:text-gray-200">Plan from {new Date(plan.createdAt).toLocaleDateString()}{plan.version && plan.version > 1 ? ` · version ${plan.version}` : ''}{activePlan?.planId === plan.id ? ' · following' : ''}</span>
                                     <ChevronDown size={20} className={`transition-transform ${activeHistoryId === plan.id ? 'rotate-180' : ''}`} />
                                 </button>
                                 {activeHistoryId === plan.id && (
@@ -377,12 +534,15 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
                                             <div key={index}>
                                                 <div className="flex justify-between items-center mb-2">
                                                    <h3 className="font-bold text-teal-600 dark:text-teal-400">{daily.day}</h3>
-                                                   <p className="font-semibold text-sm text-gray-700 dark:text-gray-300">{daily.totalCalories} kcal</p>
+                                                   <div className="flex items-center gap-2">
+                                                       <DeviationBadge deviation={getDayDeviation(daily, plan.targets ?? currentTargets)} />
+                                                       <p className="font-semibold text-sm text-gray-700 dark:text-gray-300">{withDayTotals(daily).totalCalories} kcal</p>
+                                                   </div>
                                                 </div>
                                                 <div className="space-y-2">
-                                                    <MealCard meal={daily.breakfast} mealType="Breakfast" />
-                                                    <MealCard meal={daily.lunch} mealType="Lunch" />
-                                                    <MealCard meal={daily.dinner} mealType="Dinner" />
+                                                    {daily.meals.map((meal, mealIndex) => (
+                                                        <MealCard key={mealIndex} meal={meal} mealType={getPlanMealLabel(meal)} onSwap={() => setSwapTarget({ plan, dayIndex: index, mealIndex })} />
+                                                    ))}
                                                 </div>
                                             </div>
                                         ))}
@@ -390,6 +550,14 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
                                             <h3 className="font-bold text-gray-800 dark:text-gray-200 mb-1">Nutritional Notes</h3>
                                             <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{plan.notes}</p>
                                         </div>
+                                        <div className="flex flex-wrap items-center gap-4">
+                                            {renderFollowButton(plan)}
+                                            {planToGrocerySources(plan).length > 0 && (
+                                                <button onClick={() => setGroceryPlanId(plan.id)} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">
+                                                    <ShoppingCart size={16} /> Shop for this plan
+                                                </button>
+                                            )}
+                                        </div>
                                     </div>
                                 )}
                             </div>
@@ -399,15 +567,49 @@ export const Profile: React.FC<ProfileProps> = ({ userProfile, onUpdateProfile }
                     <p className="text-center text-gray-500 dark:text-gray-400 py-4">No meal plans saved yet.</p>
                 )}
             </div>
+
+            {swapTarget && (
+                <MealSwapModal
+                    profile={userProfile}
+                    meal={swapTarget.plan.plan[swapTarget.dayIndex].meals[swapTarget.mealIndex]}
+                    request={resolveMealPlanRequest(swapTarget.plan.request ?? savedPlanRequest)}
+                    onClose={() => setSwapTarget(null)}
+                    onSelect={handleSwapMeal}
+                />
+            )}
+            {groceryPlanId !== undefined && <GroceryListModal initialPlanId={groceryPlanId || undefined} onClose={() => setGroceryPlanId(undefined)} />}
         </div>
     );
 };
 
-const MealCard: React.FC<{ meal: MealPlan['plan'][0]['breakfast'], mealType: string }> = ({ meal, mealType }) => (
+const MealCard: React.FC<{ meal: Meal, mealType: string, onSwap?: () => void }> = ({ meal, mealType, onSwap }) => (
     <div className="bg-teal-50/70 dark:bg-gray-700/50 p-4 rounded-lg border border-teal-100 dark:border-teal-800">
-        <p className="font-bold text-teal-800 dark:text-teal-300">{mealType}</p>
+        <div className="flex justify-between items-center">
+            <p className="font-bold text-teal-800 dark:text-teal-300">{mealType}</p>
+            {onSwap && (
+                <button onClick={onSwap} className="flex items-center gap-1 text-xs font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300" aria-label={`Swap ${meal.name}`}>
+                    <RefreshCw size={12} /> Swap
+                </button>
+            )}
+        </div>
         <h4 className="font-semibold text-gray-800 dark:text-gray-200 mt-1">{meal.name}</h4>
         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{meal.description}</p>
         <p className="text-xs text-gray-500 mt-2">{meal.calories} kcal &bull; {meal.protein}g Protein</p>
     </div>
 );
+
+const DeviationBadge: React.FC<{ deviation: DayDeviation }> = ({ deviation }) => {
+    if (deviation.isOnTarget) {
+        return <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">On target</span>;
+    }
+    const calorieLabel = `${formatDeviation(deviation.calories)} kcal`;
+    const proteinLabel = `${formatDeviation(deviation.protein)} protein`;
+    return (
+        <span
+            className="text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+            title={`${calorieLabel} and ${proteinLabel} compared with your daily targets`}
+        >
+            {calorieLabel} · {proteinLabel}
+        </span>
+    );
+};
@@ -1,32 +1,84 @@
-import React, { useMemo } from 'react';
-import type { UserProfile, DailyLogEntry } from '../types';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
-import { Flame, Activity, TrendingUp } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { UserProfile, DailyLogEntry, MealSlot } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, ReferenceLine } from 'recharts';
+import { Flame, Activity, TrendingUp, CalendarCheck } from 'lucide-react';
+import { getNutritionGoals } from '../services/goals';
+import { getLogsInRange, getLoggedDates } from '../services/logStore';
+import { activePlanStore, mealPlanHistoryStore, type DailyLogs } from '../services/storage';
+import { getTodayKey, shiftDateKey, formatDateKey } from '../services/dateUtils';
+import { MEAL_SLOTS, getMealSlot } from '../services/mealSlots';
+import { MICRONUTRIENTS, getDailyValues, sumMicronutrients } from '../services/micronutrients';
+import { MEAL_PLAN_TOLERANCE, getPlanAdherence } from '../services/mealPlans';
+import { useStoredValue } from '../hooks/useStoredValue';
+import { ProgressRing } from './ProgressRing';
 
 interface ProgressProps {
     userProfile: UserProfile;
 }
 
 const COLORS = ['#34d399', '#f59e0b', '#ef4444']; // Emerald, Amber, Red for Protein, Carbs, Fat
+const SLOT_COLORS = ['#fbbf24', '#14b8a6', '#6366f1', '#f472b6']; // Breakfast, Lunch, Dinner, Snacks
+
+const RANGE_OPTIONS = [7, 30, 90, 365] as const;
+type RangeDays = typeof RANGE_OPTIONS[number];
 
 export const Progress: React.FC<ProgressProps> = ({ userProfile }) => {
-    
-    const historicalLogs = useMemo(() => {
-        const raw = localStorage.getItem('nutrisnap_dailyLogs');
-        return raw ? JSON.parse(raw) : {};
+    const goals = useMemo(() => getNutritionGoals(userProfile), [userProfile]);
+
+    const [rangeDays, setRangeDays] = useState<RangeDays>(7);
+    const [historicalLogs, setHistoricalLogs] = useState<DailyLogs>({});
+    const [loggedDates, setLoggedDates] = useState<string[]>([]);
+    const [activePlan] = useStoredValue(activePlanStore);
+    const [mealPlanHistory] = useStoredValue(mealPlanHistoryStore);
+    const [planLogs, setPlanLogs] = useState<DailyLogs>({});
+    const followedPlan = activePlan ? mealPlanHistory.find(plan => plan.id === activePlan.planId) : undefined;
+
+    useEffect(() => {
+        getLoggedDates()
+            .then(setLoggedDates)
+            .catch(err => console.error("Failed to load logged dates", err));
     }, []);
 
-    const last7DaysData = useMemo(() => {
+    useEffect(() => {
+        const today = getTodayKey();
+        getLogsInRange(shiftDateKey(today, -(rangeDays - 1)), today)
+            .then(setHistoricalLogs)
+            .catch(err => console.error("Failed to load logs for progress charts", err));
+    }, [rangeDays]);
+
+    // The plan may have started before the selected range, so its days are loaded separately.
+    const planStartDate = followedPlan ? activePlan?.startDate : undefined;
+    const planLength = followedPlan?.plan.length ?? 0;
+    useEffect(() => {
+        if (!planStartDate) return;
+        getLogsInRange(planStartDate, shiftDateKey(planStartDate, planLength - 1))
+            .then(setPlanLogs)
+            .catch(err => console.error("Failed to load logs for plan adherence", err));
+    }, [planStartDate, planLength]);
+
+    const planAdherence = useMemo(() => {
+        if (!activePlan || !followedPlan) return null;
+        const days = getPlanAdherence(followedPlan, activePlan, planLogs, getTodayKey());
+        return {
+            days: days.map(day => ({ ...day, name: formatDateKey(day.date, { month: 'short', day: 'numeric' }) })),
+            onPlanDays: days.filter(day => day.planned > 0 && Math.abs(day.eaten / day.planned - 1) <= MEAL_PLAN_TOLERANCE.calories).length,
+            planned: days.reduce((sum, day) => sum + day.planned, 0),
+            eaten: days.reduce((sum, day) => sum + day.eaten, 0),
+        };
+    }, [activePlan, followedPlan, planLogs]);
+
+    const rangeData = useMemo(() => {
         const data = [];
-        for (let i = 6; i >= 0; i--) {
-            const date = new Date();
-            date.setDate(date.getDate() - i);
-            const dateKey = date.toISOString().slice(0, 10);
+        for (let i = rangeDays - 1; i >= 0; i--) {
+            const dateKey = shiftDateKey(getTodayKey(), -i);
             
             const dayLog: DailyLogEntry[] = historicalLogs[dateKey] || [];
+            const slotCalories: Record<MealSlot, number> = { breakfast: 0, lunch: 0, dinner: 0, snacks: 0 };
             const totals = dayLog.reduce((acc, entry) => {
                 if (entry.type === 'meal') {
+                    const slot = getMealSlot(entry);
                     entry.items.forEach(item => {
+                        slotCalories[slot] += item.calories;
                         acc.calories += item.calories;
                         acc.protein += item.protein;
                         acc.carbs += item.carbohydrates;
@@ -39,18 +91,23 @@ export const Progress: React.FC<ProgressProps> = ({ userProfile }) => {
             }, { calories: 0, protein: 0, carbs: 0, fat: 0 });
             
             data.push({
-                name: date.toLocaleDateString('en-US', { weekday: 'short' }),
+                name: rangeDays === 7
+                    ? formatDateKey(dateKey, { weekday: 'short' })
+                    : formatDateKey(dateKey, { month: 'short', day: 'numeric' }),
                 calories: totals.calories,
                 protein: totals.protein,
                 carbs: totals.carbs,
                 fat: totals.fat,
+                ...slotCalories,
+                micronutrients: sumMicronutrients(dayLog.flatMap(entry => (entry.type === 'meal' ? entry.items : []))).totals,
+                logged: dayLog.length > 0,
             });
         }
         return data;
-    }, [historicalLogs]);
+    }, [historicalLogs, rangeDays]);
 
     const macroDistribution = useMemo(() => {
-        const totalMacros = last7DaysData.reduce((acc, day) => {
+        const totalMacros = rangeData.reduce((acc, day) => {
             acc.protein += day.protein;
             acc.carbs += day.carbs;
             acc.fat += day.fat;
@@ -65,38 +122,53 @@ export const Progress: React.FC<ProgressProps> = ({ userProfile }) => {
             { name: 'Carbs', value: totalMacros.carbs },
             { name: 'Fat', value: totalMacros.fat },
         ];
-    }, [last7DaysData]);
+    }, [rangeData]);
     
+    const dailyAverages = useMemo(() => {
+        const loggedDays = rangeData.filter(day => day.logged);
+        if (loggedDays.length === 0) return null;
+        const sum = loggedDays.reduce((acc, day) => {
+            acc.protein += day.protein;
+            acc.carbs += day.carbs;
+            acc.fat += day.fat;
+            return acc;
+        }, { protein: 0, carbs: 0, fat: 0 });
+        return {
+            protein: sum.protein / loggedDays.length,
+            carbs: sum.carbs / loggedDays.length,
+            fat: sum.fat / loggedDays.length,
+        };
+    }, [rangeData]);
+
+    // Average daily intake as % of the daily value, over the days that reported each nutrient.
+    const micronutrientAverages = useMemo(() => {
+        const dailyValues = getDailyValues(userProfile.age);
+        return MICRONUTRIENTS.flatMap(info => {
+            const values = rangeData
+                .map(day => day.micronutrients[info.key])
+                .filter((value): value is number => value !== undefined);
+            if (values.length === 0) return [];
+            const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+            return [{ name: info.label, percent: Math.round((average / dailyValues[info.key]) * 100), isLimit: !!info.isLimit }];
+        });
+    }, [rangeData, userProfile.age]);
+
     const loggingStreak = useMemo(() => {
+        const loggedDateSet = new Set(loggedDates);
+        const today = getTodayKey();
+        // Today's log may still be empty; the streak then counts from yesterday.
+        let dateKey = loggedDateSet.has(today) ? today : shiftDateKey(today, -1);
         let streak = 0;
-        let currentDate = new Date();
-        
-        while (true) {
-            const dateKey = currentDate.toISOString().slice(0, 10);
-            if (historicalLogs[dateKey] && historicalLogs[dateKey].length > 0) {
-                streak++;
-                currentDate.setDate(currentDate.getDate() - 1);
-            } else {
-                // If it's not today, and the log is empty, break.
-                // If it IS today, and the log is empty, the streak is 0 anyway.
-                // We need to check if the break happens on the very first day.
-                const today = new Date().toISOString().slice(0, 10);
-                if(dateKey !== today || streak > 0) break;
-                
-                // If we are still on today and streak is 0, check yesterday
-                currentDate.setDate(currentDate.getDate() - 1);
-                const yesterdayKey = currentDate.toISOString().slice(0, 10);
-                 if (!historicalLogs[yesterdayKey] || historicalLogs[yesterdayKey].length === 0) {
-                    break;
-                 }
-            }
+        while (loggedDateSet.has(dateKey)) {
+            streak++;
+            dateKey = shiftDateKey(dateKey, -1);
         }
         return streak;
-    }, [historicalLogs]);
+    }, [loggedDates]);
     
     const weightData = userProfile.weightHistory
         ? userProfile.weightHistory.map(entry => ({
-            date: new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+            date: formatDateKey(entry.date, { month: 'short', day: 'numeric' }),
             weight: userProfile.weightUnit === 'lbs' ? entry.weight * 2.20462 : entry.weight
         }))
         : [];
@@ -117,7 +189,7 @@ export const Progress: React.FC<ProgressProps> = ({ userProfile }) => {
                 </div>
                 <div className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-lg">
                     <Activity className="mx-auto text-teal-500" size={28}/>
-                    <p className="text-2xl font-bold mt-2">{Object.keys(historicalLogs).length}</p>
+                    <p className="text-2xl font-bold mt-2">{loggedDates.length}</p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">Total Days Logged</p>
                 </div>
                  <div className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-lg col-span-2 md:col-span-1">
@@ -145,16 +217,27 @@ export const Progress: React.FC<ProgressProps> = ({ userProfile }) => {
                 ) : <p className="text-center text-gray-500 py-10">Log your weight in your profile for a few days to see a chart.</p>}
             </div>
 
+            <div className="flex justify-end">
+                <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-1">
+                    {RANGE_OPTIONS.map(days => (
+                        <button key={days} onClick={() => setRangeDays(days)} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${rangeDays === days ? 'bg-white dark:bg-gray-600 text-teal-600 dark:text-teal-300 shadow-sm' : 'text-gray-500 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
+                            {days === 365 ? '1Y' : `${days}D`}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             <div className="grid md:grid-cols-2 gap-8">
                  <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
-                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Last 7 Days Calories</h2>
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Last {rangeDays} Days Calories</h2>
                      <ResponsiveContainer width="100%" height={300}>
-                        <BarChart data={last7DaysData}>
+                        <BarChart data={rangeData}>
                             <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2} />
                             <XAxis dataKey="name" tick={{ fill: '#9ca3af' }} />
                             <YAxis tick={{ fill: '#9ca3af' }} />
                             <Tooltip contentStyle={{ backgroundColor: 'rgba(31, 41, 55, 0.8)', border: 'none', borderRadius: '0.5rem' }}/>
                             <Legend />
+                            <ReferenceLine y={goals.calories} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: 'Goal', fill: '#f59e0b', position: 'insideTopRight' }} />
                             <Bar dataKey="calories" fill="#14b8a6" />
                         </BarChart>
                     </ResponsiveContainer>
@@ -175,6 +258,78 @@ export const Progress: React.FC<ProgressProps> = ({ userProfile }) => {
                 </div>
             </div>
 
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+                <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Calories by Meal</h2>
+                <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={rangeData}>
+                        <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2} />
+                        <XAxis dataKey="name" tick={{ fill: '#9ca3af' }} />
+                        <YAxis tick={{ fill: '#9ca3af' }} />
+                        <Tooltip formatter={(value: number) => `${Math.round(value)} kcal`} contentStyle={{ backgroundColor: 'rgba(31, 41, 55, 0.8)', border: 'none', borderRadius: '0.5rem' }}/>
+                        <Legend />
+                        {MEAL_SLOTS.map((slot, index) => (
+                            <Bar key={slot.id} dataKey={slot.id} name={slot.label} stackId="meals" fill={SLOT_COLORS[index % SLOT_COLORS.length]} />
+                        ))}
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+
+            {planAdherence && (
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2"><CalendarCheck size={20} /> Meal Plan Adherence</h2>
+                    {planAdherence.days.length > 0 ? (
+                        <>
+                            <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                                {planAdherence.onPlanDays} of {planAdherence.days.length} day{planAdherence.days.length === 1 ? '' : 's'} within {Math.round(MEAL_PLAN_TOLERANCE.calories * 100)}% of the plan
+                                {planAdherence.planned > 0 && <> &bull; {Math.round(planAdherence.eaten / planAdherence.planned * 100)}% of planned calories eaten</>}
+                            </p>
+                            <ResponsiveContainer width="100%" height={300}>
+                                <BarChart data={planAdherence.days}>
+                                    <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2} />
+                                    <XAxis dataKey="name" tick={{ fill: '#9ca3af' }} />
+                                    <YAxis tick={{ fill: '#9ca3af' }} />
+                                    <Tooltip formatter={(value: number) => `${Math.round(value)} kcal`} contentStyle={{ backgroundColor: 'rgba(31, 41, 55, 0.8)', border: 'none', borderRadius: '0.5rem' }}/>
+                                    <Legend />
+                                    <Bar dataKey="planned" name="Planned" fill="#99f6e4" />
+                                    <Bar dataKey="eaten" name="Eaten" fill="#14b8a6" />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </>
+                    ) : <p className="text-center text-gray-500 py-10">Your plan starts on {formatDateKey(activePlan!.startDate, { weekday: 'long', month: 'short', day: 'numeric' })}.</p>}
+                </div>
+            )}
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+                <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Daily Macro Averages vs. Targets</h2>
+                {dailyAverages ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+                        <ProgressRing label="Protein" value={dailyAverages.protein} goal={goals.protein} unit="g" color="text-sky-500" />
+                        <ProgressRing label="Carbs" value={dailyAverages.carbs} goal={goals.carbohydrates} unit="g" color="text-amber-500" />
+                        <ProgressRing label="Fat" value={dailyAverages.fat} goal={goals.fat} unit="g" color="text-red-500" />
+                    </div>
+                ) : <p className="text-center text-gray-500 py-10">Log some meals to compare your averages with your targets.</p>}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg">
+                <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Vitamins &amp; Minerals (% Daily Value)</h2>
+                {micronutrientAverages.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={Math.max(micronutrientAverages.length * 36, 120)}>
+                        <BarChart data={micronutrientAverages} layout="vertical" margin={{ left: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2} />
+                            <XAxis type="number" unit="%" tick={{ fill: '#9ca3af' }} />
+                            <YAxis type="category" dataKey="name" width={100} tick={{ fill: '#9ca3af' }} />
+                            <Tooltip formatter={(value: number) => `${value}% of daily value`} contentStyle={{ backgroundColor: 'rgba(31, 41, 55, 0.8)', border: 'none', borderRadius: '0.5rem' }}/>
+                            <ReferenceLine x={100} stroke="#f59e0b" strokeDasharray="4 4" />
+                            <Bar dataKey="percent" name="Daily average">
+                                {micronutrientAverages.map(entry => (
+                                    <Cell key={entry.name} fill={entry.isLimit && entry.percent > 100 ? '#ef4444' : '#14b8a6'} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                ) : <p className="text-center text-gray-500 py-10">Micronutrients appear here once logged foods include them.</p>}
+            </div>
+
         </div>
     );
 };
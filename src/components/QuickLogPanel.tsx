@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, Trash2, History, Bookmark } from 'lucide-react';
+import type { DailyLogEntry, MacroData, MealSlot } from '../types';
+import { savedMealsStore, type DailyLogs } from '../services/storage';
+import { getDayLog, getLogsInRange } from '../services/logStore';
+import { deleteSavedMeal, getRecentMeals, getSlotEntries, recordSavedMealUse, sortSavedMeals, type RecentMeal } from '../services/savedMeals';
+import { MEAL_SLOTS, MEAL_SLOT_LABELS } from '../services/mealSlots';
+import { describeDateKey, getTodayKey, shiftDateKey } from '../services/dateUtils';
+import { useStoredValue } from '../hooks/useStoredValue';
+
+const RECENT_DAYS = 30;
+
+export interface QuickLogGroup {
+  items: MacroData[];
+  mealSlot: MealSlot;
+}
+
+interface QuickLogPanelProps {
+  selectedDate: string;
+  dailyLog: DailyLogEntry[]; // the selected day's log as the dashboard currently has it
+  mealSlot: MealSlot;
+  onLog: (groups: QuickLogGroup[]) => void;
+}
+
+const sumCalories = (items: MacroData[]) => Math.round(items.reduce((sum, item) => sum + item.calories, 0));
+
+const describeItems = (items: MacroData[]) => items.map(item => item.foodName).join(', ');
+
+export const QuickLogPanel: React.FC<QuickLogPanelProps> = ({ selectedDate, dailyLog, mealSlot, onLog }) => {
+  const [savedMeals] = useStoredValue(savedMealsStore);
+  const [recentLogs, setRecentLogs] = useState<DailyLogs>({});
+  const [previousDayLog, setPreviousDayLog] = useState<DailyLogEntry[]>([]);
+  const previousDate = shiftDateKey(selectedDate, -1);
+  const previousLabel = describeDateKey(previousDate);
+
+  // Reloaded when the day changes so edits made to the previous day are picked up.
+  useEffect(() => {
+    const today = getTodayKey();
+    getLogsInRange(shiftDateKey(today, -RECENT_DAYS), today)
+      .then(setRecentLogs)
+      .catch(err => console.error("Failed to load recent meals", err));
+  }, [selectedDate]);
+
+  // The selected day comes from the dashboard so meals logged just now show up straight away.
+  const recentMeals: RecentMeal[] = useMemo(() => {
+    const today = getTodayKey();
+    const inRange = selectedDate >= shiftDateKey(today, -RECENT_DAYS) && selectedDate <= today;
+    return getRecentMeals(inRange ? { ...recentLogs, [selectedDate]: dailyLog } : recentLogs);
+  }, [recentLogs, selectedDate, dailyLog]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    getDayLog(previousDate)
+      .then(log => {
+        if (isCurrent) setPreviousDayLog(log);
+      })
+      .catch(err => console.error(`Failed to load the log for ${previousDate}`, err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [previousDate]);
+
+  const handleCopySlot = (slot: MealSlot) => {
+    const entries = getSlotEntries(previousDayLog, slot);
+    // Day logs are newest first; log oldest first so the copies keep their order.
+    onLog([...entries].reverse().map(entry => ({ items: entry.items, mealSlot: slot })));
+  };
+
+  const handleLogSavedMeal = (mealId: string) => {
+    const meal = savedMeals.find(m => m.id === mealId);
+    if (!meal) return;
+    onLog([{ items: meal.items, mealSlot }]);
+    recordSavedMealUse(meal.id);
+  };
+
+  const handleDeleteSavedMeal = (mealId: string, name: string) => {
+    if (window.confirm(`Delete the saved meal "${name}"?`)) {
+      deleteSavedMeal(mealId);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in-0 duration-300">
+      <div>
+        <h3 className="font-semibold text-gray-700 dark:text-gray-200 mb-2 flex items-center gap-2"><Copy size={16} /> Copy from {previousLabel === 'Yesterday' ? 'yesterday' : previousLabel}</h3>
+        <div className="flex flex-wrap gap-2">
+          {MEAL_SLOTS.map(slot => {
+            const entries = getSlotEntries(previousDayLog, slot.id);
+            return (
+              <button
+                key={slot.id}
+                onClick={() => handleCopySlot(slot.id)}
+                disabled={entries.length === 0}
+                className="px-3 py-1 text-sm font-semibold rounded-full border border-teal-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-teal-50 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                {slot.label}
+                {entries.length > 0 && <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">{sumCalories(entries.flatMap(entry => entry.items))} kcal</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-700 dark:text-gray-200 mb-2 flex items-center gap-2"><Bookmark size={16} /> Saved Meals</h3>
+        {savedMeals.length > 0 ? (
+          <div className="space-y-2">
+            {sortSavedMeals(savedMeals).map(meal => (
+              <div key={meal.id} className="flex justify-between items-center gap-2 p-3 rounded-lg bg-teal-50/50 dark:bg-gray-700/30 group">
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 dark:text-gray-200 truncate">{meal.name}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{sumCalories(meal.items)} kcal &bull; {describeItems(meal.items)}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={() => handleDeleteSavedMeal(meal.id, meal.name)} className="text-gray-400 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity" title="Delete saved meal"><Trash2 size={16} /></button>
+                  <button onClick={() => handleLogSavedMeal(meal.id)} className="bg-teal-500 text-white text-sm font-semibold py-1 px-3 rounded-lg hover:bg-teal-600 transition-colors">Log</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : <p className="text-sm text-gray-500 dark:text-gray-400">Use "Save as meal" on an entry in your log to keep it here.</p>}
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-700 dark:text-gray-200 mb-2 flex items-center gap-2"><History size={16} /> Recent &amp; Frequent</h3>
+        {recentMeals.length > 0 ? (
+          <div className="space-y-2">
+            {recentMeals.map(({ entry, date, count }) => (
+              <div key={entry.id} className="flex justify-between items-center gap-2 p-3 rounded-lg bg-teal-50/50 dark:bg-gray-700/30">
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 dark:text-gray-200 truncate capitalize">{describeItems(entry.items)}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {sumCalories(entry.items)} kcal &bull; {count > 1 ? `${count}× in ${RECENT_DAYS} days, last ` : ''}{describeDateKey(date)}{entry.mealSlot ? ` (${MEAL_SLOT_LABELS[entry.mealSlot]})` : ''}
+                  </p>
+                </div>
+                <button onClick={() => onLog([{ items: entry.items, mealSlot }])} className="flex-shrink-0 bg-teal-500 text-white text-sm font-semibold py-1 px-3 rounded-lg hover:bg-teal-600 transition-colors">Log</button>
+              </div>
+            ))}
+          </div>
+        ) : <p className="text-sm text-gray-500 dark:text-gray-400">Meals you log will show up here for quick re-logging.</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { findRecipes, getRecipesFromIngredientsImage, getFeaturedRecipes, generateRecipeImage } from '../services/geminiService';
 import type { Recipe, FeaturedRecipe, IngredientRecipeSuggestion } from '../types';
-import { Search, ChefHat, X, Heart, Plus, Trash2 } from 'lucide-react';
+import { Search, ChefHat, X, Heart, Plus, Trash2, ShoppingCart } from 'lucide-react';
 import { Spinner } from './Spinner';
 import { RecipeModal } from './RecipeModal';
+import { GroceryListModal } from './GroceryListModal';
+import { favoritesStore, customRecipesStore } from '../services/storage';
+import { useStoredValue } from '../hooks/useStoredValue';
 
 const SearchSuggestion = ({ text, onClick }: { text: string, onClick: (query: string) => void }) => (
     <button onClick={() => onClick(text)} className="px-4 py-1.5 bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300 rounded-full text-sm hover:bg-teal-200 dark:hover:bg-teal-800 transition-colors"> {text} </button>
@@ -11,11 +14,12 @@ const SearchSuggestion = ({ text, onClick }: { text: string, onClick: (query: st
 
 export const RecipeFinder: React.FC = () => {
     const [selectedRecipe, setSelectedRecipe] = useState<Recipe | FeaturedRecipe | null>(null);
-    const [favorites, setFavorites] = useState<Recipe[]>([]);
+    const [favorites, setFavorites] = useStoredValue(favoritesStore);
     const [favoritingId, setFavoritingId] = useState<string | null>(null);
-    const [customRecipes, setCustomRecipes] = useState<Recipe[]>([]);
+    const [customRecipes, setCustomRecipes] = useStoredValue(customRecipesStore);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-    const [newRecipeData, setNewRecipeData] = useState({ title: '', description: '', ingredients: '', instructions: '' });
+    const [isGroceryListOpen, setIsGroceryListOpen] = useState(false);
+    const [newRecipeData, setNewRecipeData] = useState({ title: '', description: '', servings: '', ingredients: '', instructions: '' });
     const [isSaving, setIsSaving] = useState(false);
     const [featuredRecipes, setFeaturedRecipes] = useState<FeaturedRecipe[]>([]);
     const [featuredLoading, setFeaturedLoading] = useState(true);
@@ -29,36 +33,6 @@ export const RecipeFinder: React.FC = () => {
     const [ingredientError, setIngredientError] = useState<string | null>(null);
     const ingredientFileInputRef = useRef<HTMLInputElement>(null);
     
-    useEffect(() => {
-        try {
-            const savedFavorites = localStorage.getItem('nutrisnap_favorites');
-            if (savedFavorites) setFavorites(JSON.parse(savedFavorites));
-            
-            const savedCustom = localStorage.getItem('nutrisnap_customRecipes');
-            if (savedCustom) setCustomRecipes(JSON.parse(savedCustom));
-
-        } catch (error) {
-            console.error("Could not load recipes from localStorage", error);
-        }
-    }, []);
-
-    useEffect(() => {
-        try {
-            localStorage.setItem('nutrisnap_favorites', JSON.stringify(favorites));
-        } catch (error) {
-            console.error("Could not save favorite recipes to localStorage", error);
-        }
-    }, [favorites]);
-    
-    useEffect(() => {
-        try {
-            localStorage.setItem('nutrisnap_customRecipes', JSON.stringify(customRecipes));
-        } catch (error) {
-            console.error("Could not save custom recipes to localStorage", error);
-        }
-    }, [customRecipes]);
-
-
     useEffect(() => {
         const loadFeatured = async () => {
             try {
@@ -118,6 +92,8 @@ export const RecipeFinder: React.FC = () => {
                 imageSearchQuery: recipe.imageSearchQuery,
                 ingredients: recipe.ingredients,
                 instructions: recipe.instructions,
+                servings: recipe.servings,
+                ingredientNutrition: recipe.ingredientNutrition,
             };
 
             setFavorites(prev => [...prev, newFavorite]);
@@ -192,7 +168,7 @@ export const RecipeFinder: React.FC = () => {
 
     const handleSaveCustomRecipe = async (e: React.FormEvent) => {
         e.preventDefault();
-        const { title, description, ingredients, instructions } = newRecipeData;
+        const { title, description, servings, ingredients, instructions } = newRecipeData;
         if (!title.trim() || !description.trim() || !ingredients.trim() || !instructions.trim()) {
             alert("Please fill out all fields.");
             return;
@@ -206,12 +182,13 @@ export const RecipeFinder: React.FC = () => {
                 title,
                 description,
                 imageUrl,
-                ingredients: ingredients.split('\n').filter(i => i.trim() !== ''),
+                ...(parseInt(servings, 10) > 0 ? { servings: parseInt(servings, 10) } : {}),
+                ingredients: ingredients.split('\n').map(i => i.trim()).filter(i => i !== ''),
                 instructions: instructions.split('\n').filter(i => i.trim() !== ''),
             };
             setCustomRecipes(prev => [newCustomRecipe, ...prev]);
             setIsAddModalOpen(false);
-            setNewRecipeData({ title: '', description: '', ingredients: '', instructions: '' });
+            setNewRecipeData({ title: '', description: '', servings: '', ingredients: '', instructions: '' });
         } catch (error) {
             console.error("Failed to save custom recipe", error);
             alert("Sorry, there was an error saving your recipe. Please try again.");
@@ -231,7 +208,14 @@ export const RecipeFinder: React.FC = () => {
              <h1 className="text-3xl md:text-4xl font-bold text-gray-800 dark:text-gray-100 text-center mb-6">Recipe Finder</h1>
             
             <div>
-                 <h2 className="text-2xl font-bold text-gray-700 dark:text-gray-200 mb-4">Your Saved Recipes</h2>
+                 <div className="flex justify-between items-center mb-4">
+                     <h2 className="text-2xl font-bold text-gray-700 dark:text-gray-200">Your Saved Recipes</h2>
+                     {favorites.length > 0 && (
+                         <button onClick={() => setIsGroceryListOpen(true)} className="flex items-center gap-1 text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">
+                             <ShoppingCart size={16} /> Grocery list
+                         </button>
+                     )}
+                 </div>
                  {favorites.length > 0 ? (
                     <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                         {favorites.map(recipe => (
@@ -423,6 +407,8 @@ export const RecipeFinder: React.FC = () => {
                     onToggleFavorite={toggleFavorite}
                 />
             )}
+
+            {isGroceryListOpen && <GroceryListModal onClose={() => setIsGroceryListOpen(false)} />}
             
             {isAddModalOpen && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-300">
@@ -436,6 +422,7 @@ export const RecipeFinder: React.FC = () => {
                         <form onSubmit={handleSaveCustomRecipe} className="p-6 space-y-4 overflow-y-auto">
                              <input type="text" name="title" value={newRecipeData.title} onChange={handleNewRecipeChange} placeholder="Recipe Title" required className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                              <textarea name="description" value={newRecipeData.description} onChange={handleNewRecipeChange} placeholder="A short, enticing description" required rows={3} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
+                             <input type="number" name="servings" min="1" step="1" value={newRecipeData.servings} onChange={handleNewRecipeChange} placeholder="Servings (optional)" className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                              <textarea name="ingredients" value={newRecipeData.ingredients} onChange={handleNewRecipeChange} placeholder="Ingredients (one per line)" required rows={6} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                              <textarea name="instructions" value={newRecipeData.instructions} onChange={handleNewRecipeChange} placeholder="Instructions (one step per line)" required rows={6} className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700" />
                         </form>
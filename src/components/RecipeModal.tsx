@@ -1,6 +1,9 @@
-import React from 'react';
-import type { Recipe, FeaturedRecipe } from '../types';
-import { X, ExternalLink, Heart, ChefHat } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import type { Recipe, FeaturedRecipe, MeasurementSystem } from '../types';
+import { X, ExternalLink, Heart, ChefHat, Minus, Plus } from 'lucide-react';
+import { RecipeNutritionPanel } from './RecipeNutritionPanel';
+import { updateSavedRecipe, type RecipeNutritionChanges } from '../services/recipes';
+import { formatIngredientLine } from '../services/ingredients';
 
 interface RecipeModalProps {
     recipe: Recipe | FeaturedRecipe;
@@ -9,8 +12,24 @@ interface RecipeModalProps {
     onToggleFavorite: (recipe: Recipe | FeaturedRecipe) => void;
 }
 
-export const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, isFavorite, onToggleFavorite }) => {
+export const RecipeModal: React.FC<RecipeModalProps> = ({ recipe: initialRecipe, onClose, isFavorite, onToggleFavorite }) => {
+    // Nutrition worked out here travels with the recipe, including into favorites.
+    const [recipe, setRecipe] = useState(initialRecipe);
     const canBeFavorited = recipe.url || (recipe as Recipe).isCustom;
+    const baseServings = recipe.servings || 1;
+    // Only changes how the ingredient list reads; the saved recipe keeps its own servings and text.
+    const [targetServings, setTargetServings] = useState(baseServings);
+    const [units, setUnits] = useState<MeasurementSystem | 'original'>('original');
+    const scaleFactor = targetServings / baseServings;
+
+    useEffect(() => {
+        setTargetServings(baseServings);
+    }, [baseServings]);
+
+    const handleNutritionChange = (changes: RecipeNutritionChanges) => {
+        setRecipe(current => ({ ...current, ...changes }));
+        updateSavedRecipe(recipe, changes);
+    };
     
     return (
         <div 
@@ -42,12 +61,35 @@ export const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, isFav
                         )}
                     </div>
                     <p className="text-gray-600 dark:text-gray-400 mb-6">{recipe.description}</p>
+
+                    <RecipeNutritionPanel recipe={recipe} onChange={handleNutritionChange} />
                     
                     <div className="grid md:grid-cols-2 gap-x-8 gap-y-4">
                         <div>
                             <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200 mb-2 flex items-center gap-2"><ChefHat size={20} /> Ingredients</h3>
+                            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => setTargetServings(s => Math.max(1, s - 1))} disabled={targetServings <= 1} className="p-1 rounded-full text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40" aria-label="Fewer servings"><Minus size={14} /></button>
+                                    <span className="min-w-[5.5rem] text-center text-gray-700 dark:text-gray-200">{targetServings} serving{targetServings === 1 ? '' : 's'}</span>
+                                    <button onClick={() => setTargetServings(s => s + 1)} className="p-1 rounded-full text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="More servings"><Plus size={14} /></button>
+                                </div>
+                                <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-0.5" role="group" aria-label="Units">
+                                    {(['original', 'metric', 'us'] as const).map(option => (
+                                        <button
+                                            key={option}
+                                            onClick={() => setUnits(option)}
+                                            className={`px-2 py-0.5 rounded-md text-xs font-semibold capitalize ${units === option ? 'bg-white dark:bg-gray-800 text-teal-600 dark:text-teal-400 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+                                        >
+                                            {option === 'us' ? 'US' : option}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
                             <ul className="list-disc list-inside text-gray-600 dark:text-gray-300 space-y-1 text-sm">
-                                {recipe.ingredients.map((ing, i) => <li key={i}>{ing}</li>)}
+                                {recipe.ingredients.map((ing, i) => {
+                                    const line = formatIngredientLine(ing, scaleFactor, units);
+                                    return <li key={i} title={line !== ing ? ing : undefined}>{line}</li>;
+                                })}
                             </ul>
                         </div>
                         <div>
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Calculator, Check, PlusCircle, RefreshCw } from 'lucide-react';
+import type { FeaturedRecipe, IngredientNutrition, LoggedMealItem, MealSlot, Recipe } from '../types';
+import { estimateRecipeNutrition } from '../services/geminiService';
+import { getServingNutrition, recipeToFoodItem, type RecipeNutritionChanges } from '../services/recipes';
+import { addDayLogEntry } from '../services/logStore';
+import { MEAL_SLOTS, MEAL_SLOT_LABELS, suggestMealSlot } from '../services/mealSlots';
+import { createEntryTimestamp, getTodayKey, getUserTimeZone } from '../services/dateUtils';
+import { Spinner } from './Spinner';
+
+interface RecipeNutritionPanelProps {
+    recipe: Recipe | FeaturedRecipe;
+    onChange: (changes: RecipeNutritionChanges) => void;
+}
+
+const BREAKDOWN_FIELDS: { key: 'calories' | 'protein' | 'carbohydrates' | 'fat'; label: string }[] = [
+    { key: 'calories', label: 'kcal' },
+    { key: 'protein', label: 'P (g)' },
+    { key: 'carbohydrates', label: 'C (g)' },
+    { key: 'fat', label: 'F (g)' },
+];
+
+const inputClass = "w-full p-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-teal-400 focus:outline-none bg-white dark:bg-gray-700";
+
+export const RecipeNutritionPanel: React.FC<RecipeNutritionPanelProps> = ({ recipe, onChange }) => {
+    const [isEstimating, setIsEstimating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showBreakdown, setShowBreakdown] = useState(false);
+    const [portion, setPortion] = useState('1');
+    const [mealSlot, setMealSlot] = useState<MealSlot>(() => suggestMealSlot());
+    const [loggedTo, setLoggedTo] = useState<MealSlot | null>(null);
+
+    const perServing = getServingNutrition(recipe);
+
+    const handleEstimate = async () => {
+        setIsEstimating(true);
+        setError(null);
+        try {
+            onChange(await estimateRecipeNutrition(recipe));
+        } catch (err: any) {
+            setError(err.message || 'An unknown error occurred.');
+        } finally {
+            setIsEstimating(false);
+        }
+    };
+
+    const handleIngredientChange = (index: number, key: keyof IngredientNutrition, value: string) => {
+        const parsed = parseFloat(value);
+        const ingredientNutrition = (recipe.ingredientNutrition || []).map((item, i) =>
+            i === index ? { ...item, [key]: isNaN(parsed) || parsed < 0 ? 0 : parsed } : item
+        );
+        onChange({ ingredientNutrition });
+    };
+
+    const handleServingsChange = (value: string) => {
+        const servings = parseFloat(value);
+        if (servings > 0) onChange({ servings });
+    };
+
+    const handleLog = async () => {
+        const servings = parseFloat(portion);
+        const item = recipeToFoodItem(recipe, servings > 0 ? servings : 1);
+        if (!item) return;
+        const entry: LoggedMealItem = {
+            type: 'meal',
+            id: `meal_recipe_${Date.now()}`,
+            timestamp: createEntryTimestamp(),
+            timeZone: getUserTimeZone(),
+            items: [item],
+            mealSlot,
+        };
+        setError(null);
+        try {
+            await addDayLogEntry(getTodayKey(), entry);
+            setLoggedTo(mealSlot);
+        } catch (err) {
+            console.error("Failed to log recipe", err);
+            setError("The recipe couldn't be logged on this device. Please check your browser storage settings.");
+        }
+    };
+
+    if (!perServing) {
+        return (
+            <div className="mb-6 p-4 rounded-xl bg-teal-50 dark:bg-gray-700/40 flex flex-col sm:flex-row sm:items-center gap-3">
+                <p className="text-sm text-gray-600 dark:text-gray-300 flex-grow">Work out the calories and macros per serving from the ingredient list, then log a serving.</p>
+                <button onClick={handleEstimate} disabled={isEstimating} className="flex-shrink-0 flex items-center justify-center gap-2 bg-teal-500 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-600 disabled:bg-teal-300">
+                    {isEstimating ? <Spinner /> : <><Calculator size={16} /> Calculate nutrition</>}
+                </button>
+                {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+            </div>
+        );
+    }
+
+    return (
+        <div className="mb-6 p-4 rounded-xl bg-teal-50 dark:bg-gray-700/40 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Per serving</p>
+                    <p className="text-gray-800 dark:text-gray-100">
+                        <span className="text-xl font-bold">{Math.round(perServing.calories)}</span> kcal
+                        <span className="ml-3 text-sm text-gray-600 dark:text-gray-300">P: {Math.round(perServing.protein)}g | C: {Math.round(perServing.carbohydrates)}g | F: {Math.round(perServing.fat)}g</span>
+                    </p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    Makes
+                    <input type="number" min="1" step="1" value={recipe.servings || 1} onChange={(e) => handleServingsChange(e.target.value)} className={`${inputClass} w-16`} aria-label="Servings the recipe makes" />
+                    servings
+                </label>
+            </div>
+
+            <div className="flex gap-4 text-sm">
+                <button onClick={() => setShowBreakdown(show => !show)} className="font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-300">
+                    {showBreakdown ? 'Hide' : 'Check'} ingredient breakdown
+                </button>
+                <button onClick={handleEstimate} disabled={isEstimating} className="flex items-center gap-1 text-gray-500 hover:text-teal-600 disabled:opacity-50">
+                    <RefreshCw size={14} className={isEstimating ? 'animate-spin' : ''} /> Recalculate
+                </button>
+            </div>
+
+            {showBreakdown && (
+                <div className="space-y-2">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Amounts are for the whole recipe. Correct any estimate and the per-serving values update.</p>
+                    {recipe.ingredientNutrition!.map((item, index) => (
+                        <div key={index} className="grid grid-cols-6 gap-2 items-center">
+                            <p className="col-span-2 text-sm text-gray-700 dark:text-gray-200 truncate" title={item.ingredient}>{item.ingredient}</p>
+                            {BREAKDOWN_FIELDS.map(field => (
+                                <input
+                                    key={field.key}
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={Math.round(item[field.key] * 10) / 10}
+                                    onChange={(e) => handleIngredientChange(index, field.key, e.target.value)}
+                                    aria-label={`${field.label} in ${item.ingredient}`}
+                                    placeholder={field.label}
+                                    className={inputClass}
+                                />
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-teal-100 dark:border-gray-600">
+                <input type="number" min="0.25" step="0.25" value={portion} onChange={(e) => { setPortion(e.target.value); setLoggedTo(null); }} className={`${inputClass} w-20`} aria-label="Servings eaten" />
+                <span className="text-sm text-gray-600 dark:text-gray-300">serving(s) for</span>
+                <select value={mealSlot} onChange={(e) => { setMealSlot(e.target.value as MealSlot); setLoggedTo(null); }} className={`${inputClass} w-auto`} aria-label="Meal">
+                    {MEAL_SLOTS.map(slot => <option key={slot.id} value={slot.id}>{slot.label}</option>)}
+                </select>
+                <button onClick={handleLog} className="flex items-center gap-2 bg-teal-500 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-600 transition-colors">
+                    {loggedTo ? <><Check size={16} /> Logged to {MEAL_SLOT_LABELS[loggedTo]}</> : <><PlusCircle size={16} /> Log a serving</>}
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,21 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { StoredValue } from '../services/storage';
+
+/**
+ * React state backed by a storage accessor. Every component using the same
+ * store sees the same value, including writes made in other tabs.
+ */
+export const useStoredValue = <T>(store: StoredValue<T>): [T, (updater: T | ((current: T) => T)) => void] => {
+    const [value, setValue] = useState<T>(() => store.get());
+
+    useEffect(() => {
+        setValue(store.get());
+        return store.subscribe(setValue);
+    }, [store]);
+
+    const update = useCallback((updater: T | ((current: T) => T)) => {
+        store.update(current => (typeof updater === 'function' ? (updater as (current: T) => T)(current) : updater));
+    }, [store]);
+
+    return [value, update];
+};
@@ -0,0 +1,93 @@
+import type { FoodProduct, ProductContribution } from '../types';
+import { contributionsStore } from './storage';
+import { getProductPhoto, saveProductPhoto } from './logStore';
+import { MICRONUTRIENTS } from './micronutrients';
+import { submitProduct, type OffProductPayload } from './openFoodFacts';
+
+export const contributionToProduct = (contribution: ProductContribution): FoodProduct => ({
+    barcode: contribution.barcode,
+    name: contribution.name,
+    ...(contribution.brand ? { brand: contribution.brand } : {}),
+    baseUnit: contribution.servingUnit,
+    perServing: contribution.perServing,
+    servingSize: contribution.servingSize || undefined,
+    servingAmount: contribution.servingAmount,
+    sources: ['local'],
+});
+
+/** Saves the product on this device first; sharing never blocks using it. */
+export const saveContribution = async (contribution: ProductContribution, labelPhoto?: Blob | null): Promise<void> => {
+    contributionsStore.update(contributions => ({ ...contributions, [contribution.barcode]: contribution }));
+    if (labelPhoto) {
+        try {
+            await saveProductPhoto(contribution.barcode, labelPhoto);
+        } catch (error) {
+            console.error("Failed to store the product's label photo", error);
+        }
+    }
+};
+
+/** The product as Open Food Facts form fields, with nutrients given per serving in their own units. */
+export const toOpenFoodFactsPayload = (contribution: ProductContribution): OffProductPayload => {
+    const payload: OffProductPayload = {
+        code: contribution.barcode,
+        product_name: contribution.name,
+        serving_size: contribution.servingSize,
+        nutrition_data_per: 'serving',
+        comment: 'Added from NutriSnap after a barcode scan had no match',
+    };
+    if (contribution.brand) payload.brands = contribution.brand;
+
+    const { perServing } = contribution;
+    const addNutrient = (offKey: string, value: number | undefined, unit: string) => {
+        if (value === undefined) return;
+        payload[`nutriment_${offKey}`] = String(value);
+        payload[`nutriment_${offKey}_unit`] = unit;
+    };
+    addNutrient('energy-kcal', perServing.calories, 'kcal');
+    addNutrient('proteins', perServing.protein, 'g');
+    addNutrient('carbohydrates', perServing.carbohydrates, 'g');
+    addNutrient('fat', perServing.fat, 'g');
+    addNutrient('sugars', perServing.sugar, 'g');
+    MICRONUTRIENTS.forEach(info => addNutrient(info.offKey, perServing[info.key], info.unit));
+    return payload;
+};
+
+/** Downloads the payload as JSON so it can be submitted by hand. */
+export const exportContribution = (contribution: ProductContribution) => {
+    const blob = new Blob([JSON.stringify(toOpenFoodFactsPayload(contribution), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `openfoodfacts-${contribution.barcode}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const submitContribution = async (barcode: string): Promise<void> => {
+    const contribution = contributionsStore.get()[barcode];
+    if (!contribution || contribution.shareStatus === 'submitted') return;
+    const labelPhoto = contribution.hasLabelPhoto ? await getProductPhoto(barcode) : null;
+    await submitProduct(toOpenFoodFactsPayload(contribution), labelPhoto);
+    contributionsStore.update(contributions => ({
+        ...contributions,
+        [barcode]: { ...contributions[barcode], shareStatus: 'submitted', submittedAt: new Date().toISOString() },
+    }));
+};
+
+/** Shares products the user opted in for while offline or after a failed attempt. Returns how many were sent. */
+export const submitPendingContributions = async (): Promise<number> => {
+    if (!navigator.onLine) return 0;
+    const pending = Object.values(contributionsStore.get()).filter(contribution => contribution.shareStatus === 'pending');
+    let submitted = 0;
+    for (const contribution of pending) {
+        try {
+            await submitContribution(contribution.barcode);
+            submitted++;
+        } catch (error) {
+            console.warn(`Product ${contribution.barcode} is still waiting to be shared.`, error);
+            break;
+        }
+    }
+    return submitted;
+};
@@ -0,0 +1,67 @@
+import type { CustomFood, MacroData } from '../types';
+import { customFoodsStore } from './storage';
+
+export type CustomFoodSort = 'frequency' | 'recency';
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/** The loggable part of a library entry, without its bookkeeping fields. */
+export const toFoodItem = ({ id, createdAt, lastUsedAt, useCount, ...item }: CustomFood): MacroData => item;
+
+export const findCustomFoodByName = (foods: CustomFood[], name: string): CustomFood | undefined =>
+    foods.find(food => normalizeName(food.foodName) === normalizeName(name));
+
+/**
+ * Adds an item to "My Foods". Saving a food whose name is already in the
+ * library replaces its nutrition but keeps its usage history.
+ */
+export const saveCustomFood = (item: MacroData): CustomFood => {
+    const now = new Date().toISOString();
+    let saved!: CustomFood;
+    customFoodsStore.update(foods => {
+        const existing = findCustomFoodByName(foods, item.foodName);
+        if (existing) {
+            saved = { ...item, id: existing.id, createdAt: existing.createdAt, lastUsedAt: existing.lastUsedAt, useCount: existing.useCount };
+            return foods.map(food => (food.id === existing.id ? saved : food));
+        }
+        saved = { ...item, foodName: item.foodName.trim(), id: `food_${Date.now()}`, createdAt: now, lastUsedAt: now, useCount: 0 };
+        return [saved, ...foods];
+    });
+    return saved;
+};
+
+export const updateCustomFood = (id: string, item: MacroData) => {
+    customFoodsStore.update(foods => foods.map(food => (food.id === id ? { ...food, ...item } : food)));
+};
+
+export const deleteCustomFood = (id: string) => {
+    customFoodsStore.update(foods => foods.filter(food => food.id !== id));
+};
+
+/** Counts a log of each food; used to rank the library. */
+export const recordCustomFoodUse = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const now = new Date().toISOString();
+    customFoodsStore.update(foods => foods.map(food =>
+        ids.includes(food.id) ? { ...food, useCount: food.useCount + 1, lastUsedAt: now } : food
+    ));
+};
+
+const compareBy: Record<CustomFoodSort, (a: CustomFood, b: CustomFood) => number> = {
+    frequency: (a, b) => b.useCount - a.useCount || b.lastUsedAt.localeCompare(a.lastUsedAt),
+    recency: (a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt) || b.useCount - a.useCount,
+};
+
+export const sortCustomFoods = (foods: CustomFood[], sort: CustomFoodSort): CustomFood[] =>
+    [...foods].sort(compareBy[sort]);
+
+/** Name matches for autocomplete; names starting with the query rank first. */
+export const searchCustomFoods = (foods: CustomFood[], query: string, sort: CustomFoodSort = 'frequency', limit = 6): CustomFood[] => {
+    const needle = normalizeName(query);
+    if (!needle) return sortCustomFoods(foods, sort).slice(0, limit);
+    const matches = foods.filter(food => normalizeName(food.foodName).includes(needle));
+    const startsWith = (food: CustomFood) => (normalizeName(food.foodName).startsWith(needle) ? 0 : 1);
+    return matches
+        .sort((a, b) => startsWith(a) - startsWith(b) || compareBy[sort](a, b))
+        .slice(0, limit);
+};
@@ -0,0 +1,84 @@
+/**
+ * Day keys (`YYYY-MM-DD`) always refer to the user's local calendar day, never
+ * the UTC one. Everything that buckets data by day should go through here.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getUserTimeZone = (): string =>
+    Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** The local calendar day of `date` in `timeZone` (defaults to the device zone). */
+export const toDateKey = (date: Date = new Date(), timeZone: string = getUserTimeZone()): string => {
+    const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+        .formatToParts(date)
+        .reduce<Record<string, string>>((acc, part) => ({ ...acc, [part.type]: part.value }), {});
+    return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+/** Calendar arithmetic on a day key; unaffected by time zones or DST. */
+export const shiftDateKey = (dateKey: string, days: number): string => {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+/** Whole days from `fromKey` to `toKey` (negative if `toKey` is earlier). */
+export const daysBetween = (fromKey: string, toKey: string): number =>
+    Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / DAY_MS);
+
+/** Formats a day key for display without shifting it through the device time zone. */
+export const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions): string =>
+    new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+export const describeDateKey = (dateKey: string, todayKey: string = getTodayKey()): string => {
+    if (dateKey === todayKey) return 'Today';
+    if (dateKey === shiftDateKey(todayKey, -1)) return 'Yesterday';
+    return formatDateKey(dateKey, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+/**
+ * An ISO instant for an entry logged now onto `dateKey`. Past days keep the
+ * current clock time so the entry still falls inside the chosen local day.
+ */
+export const createEntryTimestamp = (dateKey: string = getTodayKey()): string => {
+    const now = new Date();
+    const offsetDays = daysBetween(toDateKey(now), dateKey);
+    return new Date(now.getTime() + offsetDays * DAY_MS).toISOString();
+};
+
+const isIsoInstant = (value: string) => /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+
+/** Time of day for a log entry, in the zone it was logged in. */
+export const formatEntryTime = (entry: { timestamp: string; timeZone?: string }): string => {
+    if (!isIsoInstant(entry.timestamp)) return entry.timestamp; // legacy entries stored a localized time string
+    return new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: entry.timeZone });
+};
+
+/**
+ * Reconstructs the instant of a legacy entry, which stored a UTC day key plus a
+ * localized "07:30 PM" style time. Returns null when the time can't be read.
+ */
+export const resolveLegacyTimestamp = (utcDateKey: string, localTime: string): Date | null => {
+    if (isIsoInstant(localTime)) return new Date(localTime);
+
+    const match = localTime.match(/(\d{1,2})[:.](\d{2})(?:\s*([AaPp])\.?\s*[Mm])?/);
+    if (!match) return null;
+
+    let hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const meridiem = match[3]?.toUpperCase();
+    if (meridiem === 'P' && hours < 12) hours += 12;
+    if (meridiem === 'A' && hours === 12) hours = 0;
+
+    // The local day is the UTC day or one of its neighbours; pick the one whose
+    // local clock time lands back on the stored UTC day.
+    for (const offset of [0, -1, 1]) {
+        const [year, month, day] = shiftDateKey(utcDateKey, offset).split('-').map(Number);
+        const candidate = new Date(year, month - 1, day, hours, minutes);
+        if (candidate.toISOString().slice(0, 10) === utcDateKey) return candidate;
+    }
+    return null;
+};
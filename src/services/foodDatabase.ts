@@ -0,0 +1,127 @@
+import type { MacroData, Nutrients, PortionBasis } from '../types';
+import { GENERIC_FOODS } from './genericFoods';
+import { createPortionedItem, divideNutrients } from './portions';
+
+export interface GenericFood {
+    id: string;
+    name: string;
+    per100: Nutrients;
+    baseUnit: 'g' | 'ml';
+    portions: PortionBasis[]; // standard portions first, then the per-gram (or per-ml) basis
+}
+
+const normalize = (text: string) =>
+    text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9%]+/g, ' ').trim();
+
+const tokenize = (text: string) => normalize(text).split(' ').filter(Boolean);
+
+// Optimal string alignment distance, capped: anything above `max` returns max + 1.
+const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        let rowMin = Infinity;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, rows[i][j]);
+        }
+        if (rowMin > max) return max + 1;
+    }
+    return rows[a.length][b.length];
+};
+
+const typoAllowance = (token: string) => (token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0);
+
+/** How well one typed word matches a word of the food name; 0 means no match. */
+const scoreToken = (queryToken: string, foodToken: string): number => {
+    if (foodToken === queryToken) return 4;
+    if (foodToken.startsWith(queryToken)) return 3;
+    // Allow typos, also in the part typed so far ("banan" -> "banana", "bananna" -> "banana").
+    // The first letter is rarely mistyped, and requiring it keeps "rice" from matching "ice".
+    const allowance = typoAllowance(queryToken);
+    if (allowance === 0 || foodToken[0] !== queryToken[0]) return 0;
+    const distance = Math.min(
+        editDistance(queryToken, foodToken, allowance),
+        editDistance(queryToken, foodToken.slice(0, queryToken.length), allowance),
+    );
+    return distance <= allowance ? 2 - distance * 0.5 : 0;
+};
+
+interface IndexedFood {
+    food: GenericFood;
+    nameTokens: string[];
+    aliasTokens: string[][];
+}
+
+let index: IndexedFood[] | null = null;
+
+// Built on first search so the table costs nothing until manual entry is used.
+const getIndex = (): IndexedFood[] => {
+    if (index) return index;
+    index = GENERIC_FOODS.map(([name, values, portions, aliases = []], position) => {
+        const [calories, protein, carbohydrates, fat, sugar, fiber, sodium] = values;
+        const per100: Nutrients = { calories, protein, carbohydrates, fat, sugar, fiber, sodium };
+        const baseUnit = portions.some(([, label]) => /\bml\)$/.test(label)) ? 'ml' : 'g';
+        const perUnit = divideNutrients(per100, 100);
+        const food: GenericFood = {
+            id: `generic_${position}`,
+            name,
+            per100,
+            baseUnit,
+            portions: [
+                ...portions.map(([unit, label, amount]): PortionBasis => ({
+                    unit,
+                    label,
+                    perUnit: divideNutrients(per100, 100 / amount),
+                    defaultQuantity: 1,
+                })),
+                { unit: baseUnit, perUnit, defaultQuantity: portions[0]?.[2] ?? 100 },
+            ],
+        };
+        return { food, nameTokens: tokenize(name), aliasTokens: aliases.map(tokenize) };
+    });
+    return index;
+};
+
+const scoreTokens = (queryTokens: string[], candidateTokens: string[]): number => {
+    let total = 0;
+    for (const queryToken of queryTokens) {
+        const best = Math.max(0, ...candidateTokens.map(token => scoreToken(queryToken, token)));
+        if (best === 0) return 0; // every typed word has to match something
+        total += best;
+    }
+    return total;
+};
+
+/**
+ * Fuzzy search over the bundled generic foods. Tolerates typos and partial
+ * words; better and shorter names rank first.
+ */
+export const searchGenericFoods = (query: string, limit = 5): GenericFood[] => {
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+
+    return getIndex()
+        .map(entry => {
+            const nameScore = scoreTokens(queryTokens, entry.nameTokens);
+            const aliasScore = Math.max(0, ...entry.aliasTokens.map(tokens => scoreTokens(queryTokens, tokens) - 0.5));
+            const score = Math.max(nameScore, aliasScore);
+            const startsWithQuery = normalize(entry.food.name).startsWith(normalize(query)) ? 1 : 0;
+            return { entry, score: score > 0 ? score + startsWithQuery - entry.nameTokens.length * 0.1 : 0 };
+        })
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(result => result.entry.food);
+};
+
+/** A loggable item for one standard portion of the food, with every other portion as an option. */
+export const toGenericFoodItem = (food: GenericFood, portionIndex = 0): MacroData => {
+    const basis = food.portions[portionIndex] || food.portions[0];
+    return createPortionedItem(food.name, basis, basis.defaultQuantity ?? 1, food.portions);
+};
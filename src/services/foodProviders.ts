@@ -0,0 +1,167 @@
+import type { FoodProduct, MacroData, Nutrients, PortionBasis } from '../types';
+import { MACRO_KEYS, createPortionedItem, divideNutrients, scaleNutrients } from './portions';
+import { MICRONUTRIENT_KEYS } from './micronutrients';
+import { localProductsProvider } from './localProducts';
+import { openFoodFactsProvider } from './openFoodFacts';
+
+/**
+ * A source of food data. Providers return null (or nothing) for foods they
+ * don't know and throw only when they couldn't be asked, e.g. offline.
+ */
+export interface FoodProvider {
+    id: string;
+    name: string;
+    priority: number; // higher is asked first and wins when results disagree
+    findByBarcode?: (barcode: string) => Promise<FoodProduct | null>;
+    search?: (query: string, limit: number) => Promise<FoodProduct[]>;
+}
+
+export interface FoodDataService {
+    findByBarcode: (barcode: string) => Promise<FoodProduct | null>;
+    search: (query: string, limit?: number) => Promise<FoodProduct[]>;
+}
+
+const NUTRIENT_KEYS: (keyof Nutrients)[] = [...MACRO_KEYS, ...MICRONUTRIENT_KEYS];
+
+const hasAllMacros = (product: FoodProduct) =>
+    MACRO_KEYS.every(key => product.per100?.[key] !== undefined || product.perServing?.[key] !== undefined);
+
+/** `primary` values with the gaps filled from `secondary`. */
+const fillNutrients = (primary?: Partial<Nutrients>, secondary?: Partial<Nutrients>): Partial<Nutrients> | undefined => {
+    if (!primary || !secondary) return primary || secondary;
+    const filled = { ...primary };
+    NUTRIENT_KEYS.forEach(key => {
+        if (filled[key] === undefined && secondary[key] !== undefined) filled[key] = secondary[key];
+    });
+    return filled;
+};
+
+/**
+ * Combines two descriptions of the same product. The primary one wins where
+ * both have a value; per-serving gaps are only filled when the serving matches.
+ */
+export const mergeProducts = (primary: FoodProduct, secondary: FoodProduct): FoodProduct => {
+    const sameServing = !primary.perServing || primary.servingAmount === undefined || primary.servingAmount === secondary.servingAmount;
+    return {
+        ...secondary,
+        ...Object.fromEntries(Object.entries(primary).filter(([, value]) => value !== undefined)),
+        per100: primary.baseUnit === secondary.baseUnit ? fillNutrients(primary.per100, secondary.per100) : primary.per100,
+        perServing: sameServing ? fillNutrients(primary.perServing, secondary.perServing) : primary.perServing,
+        servingSize: primary.servingSize ?? (sameServing ? secondary.servingSize : undefined),
+        servingAmount: primary.servingAmount ?? secondary.servingAmount,
+        sources: [...primary.sources, ...secondary.sources.filter(source => !primary.sources.includes(source))],
+    } as FoodProduct;
+};
+
+const scalePartial = (values: Partial<Nutrients>, factor: number): Partial<Nutrients> =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, value! * factor]));
+
+/** Known values, with unknown macros as 0 placeholders so the item can be logged. */
+const toNutrients = (values: Partial<Nutrients>): Nutrients => {
+    const nutrients = { ...values } as Nutrients;
+    MACRO_KEYS.forEach(key => {
+        nutrients[key] ??= 0;
+    });
+    return nutrients;
+};
+
+/**
+ * A loggable item for one serving of the product (or its usual amount by
+ * weight when no serving is known). Returns null when calories are unknown.
+ */
+export const productToFoodItem = (product: FoodProduct): MacroData | null => {
+    const { servingAmount } = product;
+    // Labels and contributions only state a serving; its weight gives the per-gram values.
+    const per100 = product.per100 ?? (product.perServing && servingAmount && servingAmount > 0
+        ? scalePartial(product.perServing, 100 / servingAmount)
+        : undefined);
+    const perServing = per100 && servingAmount ? { ...scalePartial(per100, servingAmount / 100), ...product.perServing } : product.perServing;
+
+    const options: { basis: PortionBasis; values: Partial<Nutrients> }[] = [];
+    if (perServing?.calories !== undefined) {
+        options.push({
+            basis: {
+                unit: 'serving',
+                label: product.servingSize ? `serving (${product.servingSize})` : 'serving',
+                perUnit: toNutrients(perServing),
+                defaultQuantity: 1,
+            },
+            values: perServing,
+        });
+    }
+    if (per100?.calories !== undefined) {
+        options.push({
+            basis: { unit: product.baseUnit, perUnit: divideNutrients(toNutrients(per100), 100), defaultQuantity: servingAmount || 100 },
+            values: per100,
+        });
+    }
+    if (perServing?.calories !== undefined && product.servingsPerContainer && product.servingsPerContainer > 1) {
+        options.push({
+            basis: { unit: 'piece', label: 'container', perUnit: scaleNutrients(toNutrients(perServing), product.servingsPerContainer), defaultQuantity: 1 },
+            values: perServing,
+        });
+    }
+    if (options.length === 0) return null;
+
+    const [{ basis, values }] = options;
+    const unknownNutrients = MACRO_KEYS.filter(key => values[key] === undefined);
+    return {
+        ...createPortionedItem(product.name, basis, basis.defaultQuantity ?? 1, options.map(option => option.basis)),
+        ...(product.barcode ? { barcode: product.barcode } : {}),
+        ...(unknownNutrients.length > 0 ? { unknownNutrients } : {}),
+    };
+};
+
+const productKey = (product: FoodProduct) =>
+    product.barcode || `${product.name.trim().toLowerCase()}|${(product.brand || '').trim().toLowerCase()}`;
+
+/**
+ * Asks providers in priority order. A barcode lookup stops as soon as every
+ * macro is known and merges lower-priority results into the gaps otherwise.
+ * Pass your own providers (e.g. an in-memory mock) to swap the data sources.
+ */
+export const createFoodDataService = (providers: FoodProvider[]): FoodDataService => {
+    const ordered = [...providers].sort((a, b) => b.priority - a.priority);
+
+    const findByBarcode = async (barcode: string): Promise<FoodProduct | null> => {
+        let merged: FoodProduct | null = null;
+        let firstError: unknown = null;
+        for (const provider of ordered) {
+            if (!provider.findByBarcode) continue;
+            try {
+                const product = await provider.findByBarcode(barcode);
+                if (product) merged = merged ? mergeProducts(merged, product) : product;
+            } catch (error) {
+                console.warn(`Food provider "${provider.id}" failed to look up ${barcode}`, error);
+                firstError ??= error;
+            }
+            if (merged && hasAllMacros(merged)) break;
+        }
+        // "Not found" is only certain when every provider could be asked.
+        if (!merged && firstError) throw firstError;
+        return merged;
+    };
+
+    const search = async (query: string, limit = 10): Promise<FoodProduct[]> => {
+        const settled = await Promise.allSettled(
+            ordered.map(provider => (provider.search ? provider.search(query, limit) : Promise.resolve([])))
+        );
+        const failed = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed.length === settled.length && failed.length > 0) throw failed[0].reason;
+
+        const byKey = new Map<string, FoodProduct>();
+        settled.forEach(result => {
+            if (result.status !== 'fulfilled') return;
+            result.value.forEach(product => {
+                const key = productKey(product);
+                const existing = byKey.get(key);
+                byKey.set(key, existing ? mergeProducts(existing, product) : product);
+            });
+        });
+        return [...byKey.values()].slice(0, limit);
+    };
+
+    return { findByBarcode, search };
+};
+
+export const foodDataService = createFoodDataService([localProductsProvider, openFoodFactsProvider]);
@@ -1,6 +1,9 @@
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { MacroData, Recipe, ChatMessage, IngredientRecipeSuggestion, FeaturedRecipe, UserProfile, MealPlan } from '../types';
+import type { MacroData, Micronutrients, Nutrients, NutritionLabel, IngredientNutrition, AnalysisPhoto, Recipe, PortionUnit, ChatMessage, IngredientRecipeSuggestion, FeaturedRecipe, UserProfile, MealPlan, MealPlanRequest, MealPlanTargets, DailyPlan, Meal } from '../types';
 import { fallbackFeaturedRecipes, fallbackSearchResults } from './fallbackData';
+import { createPortionedItem, divideNutrients, pickNutrients, PORTION_UNITS } from './portions';
+import { MICRONUTRIENTS } from './micronutrients';
+import { DEFAULT_MEAL_PLAN_REQUEST, MEAL_PLAN_TOLERANCE, getDayDeviation, formatDeviation, getDeviationScore, getMealPlanTargets, withDayTotals } from './mealPlans';
 
 const API_KEY = import.meta.env.VITE_API_KEY;
 
@@ -28,58 +31,340 @@ const fileToGenerativePart = async (file: File | Blob) => {
   };
 };
 
-export const analyzeImageForMacros = async (imageFile: File | Blob): Promise<MacroData[]> => {
+interface AnalyzedFoodItem extends Micronutrients {
+  foodName: string;
+  quantity: number;
+  unit: PortionUnit;
+  portionLabel?: string;
+  confidence?: number;
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  sugar: number;
+}
+
+const foodItemsSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      foodName: {
+        type: Type.STRING,
+        description: 'The name of the food item.',
+      },
+      quantity: {
+        type: Type.NUMBER,
+        description: 'Estimated amount of the item, in the given unit.',
+      },
+      unit: {
+        type: Type.STRING,
+        enum: PORTION_UNITS.map(unit => unit.id),
+        description: "Unit of the quantity: 'g', 'ml', 'cup', 'piece' or 'serving'.",
+      },
+      portionLabel: {
+        type: Type.STRING,
+        description: "For 'piece' or 'serving', what one unit is in singular form, e.g. 'bowl', 'slice', 'egg'.",
+      },
+      confidence: {
+        type: Type.NUMBER,
+        description: 'How confident you are in the identification and amount, from 0 (guess) to 1 (certain).',
+      },
+      calories: {
+        type: Type.NUMBER,
+        description: 'Total calories for the item.',
+      },
+      protein: {
+        type: Type.NUMBER,
+        description: 'Grams of protein.',
+      },
+      carbohydrates: {
+        type: Type.NUMBER,
+        description: 'Grams of carbohydrates.',
+      },
+      fat: {
+        type: Type.NUMBER,
+        description: 'Grams of fat.',
+      },
+      sugar: {
+        type: Type.NUMBER,
+        description: 'Grams of sugar.',
+      },
+      ...Object.fromEntries(MICRONUTRIENTS.map(info => [info.key, {
+        type: Type.NUMBER,
+        description: `${info.unit === 'µg' ? 'Micrograms' : info.unit === 'mg' ? 'Milligrams' : 'Grams'} of ${info.label.toLowerCase()}. Omit if it can't be estimated.`,
+      }])),
+    },
+    required: ['foodName', 'quantity', 'unit', 'calories', 'protein', 'carbohydrates', 'fat', 'sugar'],
+  },
+};
+
+/** Keeps the estimated amount so the item can be rescaled later. */
+const toMacroData = (item: AnalyzedFoodItem): MacroData => {
+  const quantity = item.quantity > 0 ? item.quantity : 1;
+  const unit = PORTION_UNITS.some(option => option.id === item.unit) ? item.unit : 'serving';
+  const macroData = createPortionedItem(item.foodName, {
+    unit,
+    ...(item.portionLabel && (unit === 'piece' || unit === 'serving') ? { label: item.portionLabel } : {}),
+    perUnit: divideNutrients(item, quantity),
+  }, quantity);
+  if (typeof item.confidence === 'number') {
+    macroData.confidence = Math.min(1, Math.max(0, item.confidence));
+  }
+  return macroData;
+};
+
+/**
+ * Analyzes one meal from one or more photos (angles, a nutrition label next to
+ * the dish, ...) in a single request. Photos marked as leftovers are subtracted
+ * so only what was eaten is returned. `hint` is a correction from the user
+ * ("this is oat milk, not dairy") that takes precedence over what the model sees.
+ */
+export const analyzeImageForMacros = async (photos: AnalysisPhoto[], hint?: string): Promise<MacroData[]> => {
   try {
-    const imagePart = await fileToGenerativePart(imageFile);
-    
-    const prompt = "You are an expert nutritionist. Analyze the food in this image and provide a detailed nutritional breakdown. Identify each distinct food item, estimate its quantity in grams or a common unit, and return a precise breakdown of its calories, protein, carbohydrates, fat, and sugar in grams. Return the data in the specified JSON format.";
+    const mealCount = photos.filter(photo => photo.kind === 'meal').length;
+    const leftoverCount = photos.length - mealCount;
+    const photoParts = await Promise.all(photos.map(async (photo, index) => [
+      { text: `Photo ${index + 1}: ${photo.kind === 'leftovers' ? 'what was left on the plate after eating' : 'the meal as served'}.` },
+      await fileToGenerativePart(photo.image),
+    ]));
+
+    let prompt = `You are an expert nutritionist. ${photos.length > 1
+      ? `These ${photos.length} photos all show the same meal, from different angles or with extra context such as a nutrition label. Use all of them together to identify the food and judge portion sizes; don't count an item twice because it appears in several photos.`
+      : 'Analyze the food in this image.'} Provide a detailed nutritional breakdown. Identify each distinct food item, estimate its quantity in grams or a common unit, and return a precise breakdown of its calories, protein, carbohydrates, fat, and sugar in grams for that quantity. Where you can estimate them reasonably, also include fiber, saturated fat, sodium, cholesterol, potassium, calcium, iron, vitamin A, vitamin C and vitamin D. Rate your confidence in each item. Return the data in the specified JSON format.`;
+    if (leftoverCount > 0 && mealCount > 0) {
+      prompt += ' Some photos show the leftovers after eating. Report only what was actually eaten: the amount served minus the amount left over, leaving out items that were not eaten at all.';
+    }
+    if (hint?.trim()) {
+      prompt += ` The user added this correction, which overrides what you see in the photos: "${hint.trim()}".`;
+    }
     
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [{ parts: [...photoParts.flat(), { text: prompt }] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: foodItemsSchema,
+      },
+    });
+
+    try {
+        const parsedResponse = JSON.parse(response.text) as AnalyzedFoodItem[];
+        return parsedResponse.map(toMacroData);
+    } catch (parseError) {
+        console.error("Error parsing JSON response from Gemini API in analyzeImageForMacros:", {
+            responseText: response.text,
+            parseError,
+        });
+        throw new Error("The AI returned an unexpected response format. Please try again.");
+    }
+
+  } catch (error) {
+    console.error("Error in analyzeImageForMacros service:", error);
+    throw new Error("Failed to analyze the image. The AI service may be temporarily unavailable or unable to identify the food. Please try a clearer picture or check your connection.");
+  }
+};
+
+export const parseMealDescription = async (description: string): Promise<MacroData[]> => {
+  try {
+    const prompt = `You are an expert nutritionist. The user described what they ate: "${description}". Split the description into distinct food items. For each item, use the amount the user stated (or a typical single portion if they didn't), and return a precise breakdown of its calories, protein, carbohydrates, fat, and sugar in grams for that amount. Where you can estimate them reasonably, also include fiber, saturated fat, sodium, cholesterol, potassium, calcium, iron, vitamin A, vitamin C and vitamin D. Return the data in the specified JSON format.`;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: foodItemsSchema,
+      },
+    });
+
+    try {
+        const parsedResponse = JSON.parse(response.text ?? '') as AnalyzedFoodItem[];
+        return parsedResponse.map(toMacroData);
+    } catch (parseError) {
+        console.error("Error parsing JSON response from Gemini API in parseMealDescription:", {
+            responseText: response.text,
+            parseError,
+        });
+        throw new Error("The AI returned an unexpected response format. Please try again.");
+    }
+
+  } catch (error) {
+    console.error("Error in parseMealDescription service:", error);
+    throw new Error("Failed to understand the meal description. Please try rephrasing it or check your connection.");
+  }
+};
+
+interface ReadLabel extends Nutrients {
+  isNutritionLabel: boolean;
+  productName?: string;
+  servingSize?: string;
+  servingAmount?: number;
+  servingUnit?: 'g' | 'ml';
+  servingsPerContainer?: number;
+}
+
+const nutritionLabelSchema = {
+  type: Type.OBJECT,
+  properties: {
+    isNutritionLabel: {
+      type: Type.BOOLEAN,
+      description: 'False if the photo does not show a legible nutrition facts panel.',
+    },
+    productName: {
+      type: Type.STRING,
+      description: 'Product name, only if it is visible on the packaging.',
+    },
+    servingSize: {
+      type: Type.STRING,
+      description: "The serving size exactly as printed, e.g. '2/3 cup (55g)'.",
+    },
+    servingAmount: {
+      type: Type.NUMBER,
+      description: 'The metric amount of one serving as printed (the number in grams or millilitres).',
+    },
+    servingUnit: {
+      type: Type.STRING,
+      enum: ['g', 'ml'],
+      description: "Unit of servingAmount: 'g' or 'ml'.",
+    },
+    servingsPerContainer: {
+      type: Type.NUMBER,
+      description: "Servings per container. Use the lower bound for 'about' values.",
+    },
+    calories: {
+      type: Type.NUMBER,
+      description: 'Calories (kcal) per serving. Convert from kJ if only kJ is printed.',
+    },
+    protein: {
+      type: Type.NUMBER,
+      description: 'Grams of protein per serving.',
+    },
+    carbohydrates: {
+      type: Type.NUMBER,
+      description: 'Grams of total carbohydrate per serving.',
+    },
+    fat: {
+      type: Type.NUMBER,
+      description: 'Grams of total fat per serving.',
+    },
+    sugar: {
+      type: Type.NUMBER,
+      description: 'Grams of total sugars per serving.',
+    },
+    ...Object.fromEntries(MICRONUTRIENTS.map(info => [info.key, {
+      type: Type.NUMBER,
+      description: `${info.unit === 'µg' ? 'Micrograms' : info.unit === 'mg' ? 'Milligrams' : 'Grams'} of ${info.label.toLowerCase()} per serving. Convert from % Daily Value if only that is printed. Omit if not on the label.`,
+    }])),
+  },
+  required: ['isNutritionLabel', 'calories', 'protein', 'carbohydrates', 'fat', 'sugar'],
+};
+
+/**
+ * Reads a Nutrition Facts panel from a photo. Values are transcribed per
+ * serving, not estimated, so the result can be scaled to the amount eaten.
+ */
+export const readNutritionLabel = async (image: File | Blob): Promise<NutritionLabel> => {
+  let parsedResponse: ReadLabel;
+  try {
+    const imagePart = await fileToGenerativePart(image);
+    const prompt = "Transcribe the nutrition facts label in this photo. Report the values for ONE serving exactly as printed; if the label only has per-100g/100ml values, report those and use 100 g (or ml) as the serving. Do not estimate anything that isn't printed. Return the data in the specified JSON format.";
+
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
       contents: [{ parts: [imagePart, { text: prompt }] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: nutritionLabelSchema,
+      },
+    });
+
+    try {
+        parsedResponse = JSON.parse(response.text ?? '') as ReadLabel;
+    } catch (parseError) {
+        console.error("Error parsing JSON response from Gemini API in readNutritionLabel:", {
+            responseText: response.text,
+            parseError,
+        });
+        throw new Error("The AI returned an unexpected response format. Please try again.");
+    }
+
+  } catch (error) {
+    console.error("Error in readNutritionLabel service:", error);
+    throw new Error("Failed to read the nutrition label. Please try a sharp, well-lit photo of the whole Nutrition Facts panel.");
+  }
+
+  // Outside the try so this reaches the user as is rather than as a generic failure.
+  if (!parsedResponse.isNutritionLabel) {
+    throw new Error("No nutrition facts label was found in the photo.");
+  }
+
+  const { isNutritionLabel, productName, servingSize, servingAmount, servingUnit, servingsPerContainer, ...nutrients } = parsedResponse;
+  return {
+    ...(productName ? { productName } : {}),
+    servingSize: servingSize || (servingAmount ? `${servingAmount}${servingUnit || 'g'}` : ''),
+    ...(servingAmount && servingAmount > 0 ? { servingAmount, servingUnit: servingUnit === 'ml' ? 'ml' : 'g' } : {}),
+    ...(servingsPerContainer && servingsPerContainer > 0 ? { servingsPerContainer } : {}),
+    perServing: pickNutrients(nutrients),
+  };
+};
+
+interface EstimatedRecipe {
+  servings: number;
+  ingredients: (Nutrients & { ingredient: string })[];
+}
+
+/**
+ * Estimates what each ingredient line contributes to a recipe, in the amount
+ * the recipe uses, plus how many servings it makes if the recipe doesn't say.
+ */
+export const estimateRecipeNutrition = async (recipe: { title: string; ingredients: string[]; servings?: number }): Promise<{ servings: number; ingredientNutrition: IngredientNutrition[] }> => {
+  try {
+    const servingsNote = recipe.servings ? `The recipe makes ${recipe.servings} servings.` : 'Estimate how many servings the recipe makes.';
+    const prompt = `You are an expert nutritionist. For the recipe "${recipe.title}", estimate the nutrition of each ingredient line below in the exact amount listed (for the whole recipe, not per serving). Keep one entry per line, in the same order, with the line copied verbatim as "ingredient". Ingredients "to taste" or used for garnish count as a typical small amount. ${servingsNote} Where you can estimate them reasonably, also include fiber, saturated fat, sodium, cholesterol, potassium, calcium, iron, vitamin A, vitamin C and vitamin D.\n\nIngredients:\n${recipe.ingredients.map(line => `- ${line}`).join('\n')}`;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              foodName: {
-                type: Type.STRING,
-                description: 'The name of the food item.',
-              },
-              calories: {
-                type: Type.NUMBER,
-                description: 'Total calories for the item.',
-              },
-              protein: {
-                type: Type.NUMBER,
-                description: 'Grams of protein.',
-              },
-              carbohydrates: {
-                type: Type.NUMBER,
-                description: 'Grams of carbohydrates.',
-              },
-              fat: {
-                type: Type.NUMBER,
-                description: 'Grams of fat.',
-              },
-              sugar: {
-                type: Type.NUMBER,
-                description: 'Grams of sugar.',
+          type: Type.OBJECT,
+          properties: {
+            servings: { type: Type.NUMBER, description: 'Number of servings the recipe makes.' },
+            ingredients: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  ingredient: { type: Type.STRING, description: 'The ingredient line, verbatim.' },
+                  calories: { type: Type.NUMBER },
+                  protein: { type: Type.NUMBER, description: 'Grams of protein.' },
+                  carbohydrates: { type: Type.NUMBER, description: 'Grams of carbohydrates.' },
+                  fat: { type: Type.NUMBER, description: 'Grams of fat.' },
+                  sugar: { type: Type.NUMBER, description: 'Grams of sugar.' },
+                  ...Object.fromEntries(MICRONUTRIENTS.map(info => [info.key, {
+                    type: Type.NUMBER,
+                    description: `${info.unit === 'µg' ? 'Micrograms' : info.unit === 'mg' ? 'Milligrams' : 'Grams'} of ${info.label.toLowerCase()}. Omit if it can't be estimated.`,
+                  }])),
+                },
+                required: ['ingredient', 'calories', 'protein', 'carbohydrates', 'fat', 'sugar'],
               },
             },
-            required: ['foodName', 'calories', 'protein', 'carbohydrates', 'fat', 'sugar'],
           },
+          required: ['servings', 'ingredients'],
         },
       },
     });
 
     try {
-        const parsedResponse = JSON.parse(response.text);
-        return parsedResponse as MacroData[];
+        const parsedResponse = JSON.parse(response.text ?? '') as EstimatedRecipe;
+        return {
+            servings: recipe.servings || (parsedResponse.servings > 0 ? Math.round(parsedResponse.servings) : 1),
+            ingredientNutrition: parsedResponse.ingredients.map(item => ({ ingredient: item.ingredient, ...pickNutrients(item) })),
+        };
     } catch (parseError) {
-        console.error("Error parsing JSON response from Gemini API in analyzeImageForMacros:", {
+        console.error("Error parsing JSON response from Gemini API in estimateRecipeNutrition:", {
             responseText: response.text,
             parseError,
         });
@@ -87,8 +372,8 @@ export const analyzeImageForMacros = async (imageFile: File | Blob): Promise<Mac
     }
 
   } catch (error) {
-    console.error("Error in analyzeImageForMacros service:", error);
-    throw new Error("Failed to analyze the image. The AI service may be temporarily unavailable or unable to identify the food. Please try a clearer picture or check your connection.");
+    console.error("Error in estimateRecipeNutrition service:", error);
+    throw new Error("Failed to calculate the recipe's nutrition. Please check your connection and try again.");
   }
 };
 
@@ -361,7 +646,141 @@ export const getAiHealthAdvice = async (history: ChatMessage[]): Promise<string>
   }
 };
 
-export const generateMealPlan = async (profile: UserProfile): Promise<Omit<MealPlan, 'id' | 'createdAt'>> => {
+const planMealSchema = {
+  type: Type.OBJECT,
+  properties: {
+    mealSlot: { type: Type.STRING, enum: ['breakfast', 'lunch', 'dinner', 'snacks'], description: "Which meal of the day this is; a day's main meals each use a different one. Snacks use 'snacks'." },
+    name: { type: Type.STRING },
+    description: { type: Type.STRING },
+    calories: { type: Type.NUMBER },
+    protein: { type: Type.NUMBER },
+    ingredients: {
+      type: Type.ARRAY,
+      description: 'Ingredients for one serving, each with its amount, e.g. "1/2 cup rolled oats" or "150 g chicken breast".',
+      items: { type: Type.STRING },
+    },
+  },
+  required: ['mealSlot', 'name', 'description', 'calories', 'protein', 'ingredients']
+};
+
+const describeMealPlanRequest = (request: MealPlanRequest): string => {
+  const lines = [
+    request.excludedIngredients.length > 0 && `- Never use these ingredients: ${request.excludedIngredients.join(', ')}.`,
+    request.budget && `- Budget: ${request.budget === 'low' ? 'keep it cheap, using affordable staples' : 'moderate grocery costs'}.`,
+    request.maxPrepMinutes && `- Each meal must take at most ${request.maxPrepMinutes} minutes to prepare and cook.`,
+    request.cuisines.length > 0 && `- Favour these cuisines: ${request.cuisines.join(', ')}.`,
+  ];
+  return lines.filter(Boolean).join('\n            ');
+};
+
+const describeMealCount = ({ mealsPerDay, snacksPerDay }: MealPlanRequest): string =>
+  `${mealsPerDay} main meal${mealsPerDay === 1 ? '' : 's'}${snacksPerDay > 0 ? ` and ${snacksPerDay} snack${snacksPerDay === 1 ? '' : 's'}` : ''}`;
+
+const dailyPlanSchema = {
+  type: Type.OBJECT,
+  properties: {
+    day: { type: Type.STRING, description: "e.g., Day 1" },
+    meals: { type: Type.ARRAY, items: planMealSchema },
+    totalCalories: { type: Type.NUMBER, description: "Total calories for the day." },
+  },
+  required: ['day', 'meals', 'totalCalories']
+};
+
+/** Asks for new versions of the given days that land on the targets. Returned in the same order. */
+const regenerateMealPlanDays = async (
+  profile: UserProfile,
+  request: MealPlanRequest,
+  days: DailyPlan[],
+  targets: MealPlanTargets,
+): Promise<DailyPlan[]> => {
+  const dietaryPreferencePrompt = profile.dietaryPreferences && profile.dietaryPreferences !== 'None'
+    ? `- Dietary Preferences: ${profile.dietaryPreferences}`
+    : '';
+  const misses = days.map(day => {
+    const deviation = getDayDeviation(day, targets);
+    return `- ${day.day}: ${day.totalCalories} kcal (${formatDeviation(deviation.calories)}), ${day.totalProtein} g protein (${formatDeviation(deviation.protein)})`;
+  });
+
+  const prompt = `
+    You are an expert AI nutritionist fixing a meal plan. These days don't meet the user's daily targets of ${targets.calories} kcal and ${targets.protein} g protein:
+    ${misses.join('\n    ')}
+
+    Requirements:
+    - Fitness goal: ${profile.fitnessGoal}
+    ${dietaryPreferencePrompt}
+    ${describeMealPlanRequest(request)}
+
+    Rewrite each of these days so its meals add up to within ${Math.round(MEAL_PLAN_TOLERANCE.calories * 100)}% of the calorie target and within ${Math.round(MEAL_PLAN_TOLERANCE.protein * 100)}% of the protein target. Keep each day's label and ${describeMealCount(request)}. Adjust portions or swap meals as needed, and make sure each meal's calories, protein and ingredients agree with each other.
+
+    Current days:
+    ${JSON.stringify(days)}
+  `;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: { days: { type: Type.ARRAY, items: dailyPlanSchema } },
+        required: ['days']
+      }
+    }
+  });
+
+  try {
+    const parsed = JSON.parse(response.text ?? '');
+    return Array.isArray(parsed.days) ? parsed.days : [];
+  } catch (parseError) {
+    console.error("Error parsing JSON response from Gemini API in regenerateMealPlanDays:", {
+      responseText: response.text,
+      parseError,
+    });
+    throw new Error("The AI returned an unexpected response format while rebalancing the meal plan.");
+  }
+};
+
+const MAX_REBALANCE_ROUNDS = 2;
+
+/**
+ * Recomputes every day's totals from its meals and re-prompts for the days
+ * that miss the targets, keeping a new version only if it is closer. If the
+ * AI can't be reached the plan is returned as it is; Profile flags the misses.
+ */
+const rebalanceMealPlan = async (
+  profile: UserProfile,
+  request: MealPlanRequest,
+  plan: DailyPlan[],
+  targets: MealPlanTargets,
+): Promise<DailyPlan[]> => {
+  const days = plan.map(withDayTotals);
+  for (let round = 0; round < MAX_REBALANCE_ROUNDS; round++) {
+    const offending = days.flatMap((day, index) => (getDayDeviation(day, targets).isOnTarget ? [] : [index]));
+    if (offending.length === 0) break;
+    try {
+      const replacements = await regenerateMealPlanDays(profile, request, offending.map(index => days[index]), targets);
+      offending.forEach((dayIndex, i) => {
+        const current = days[dayIndex];
+        const replacement = replacements.find(day => day.day === current.day) ?? replacements[i];
+        if (!replacement?.meals?.length) return;
+        const candidate = withDayTotals({ ...replacement, day: current.day });
+        if (getDeviationScore(getDayDeviation(candidate, targets)) < getDeviationScore(getDayDeviation(current, targets))) {
+          days[dayIndex] = candidate;
+        }
+      });
+    } catch (error) {
+      console.warn("Couldn't rebalance the meal plan; keeping the days as generated.", error);
+      break;
+    }
+  }
+  return days;
+};
+
+export const generateMealPlan = async (
+    profile: UserProfile,
+    request: MealPlanRequest = DEFAULT_MEAL_PLAN_REQUEST,
+): Promise<Omit<MealPlan, 'id' | 'createdAt'>> => {
     if (!profile.age || !profile.currentWeight || !profile.goalWeight || !profile.height || !profile.activityLevel || !profile.fitnessGoal) {
         throw new Error("Please complete all profile fields to generate a personalized meal plan.");
     }
@@ -374,12 +793,16 @@ export const generateMealPlan = async (profile: UserProfile): Promise<Omit<MealP
 
         const calorieGoalPrompt = profile.calorieGoal ? `- Specific Daily Calorie Goal: Approximately ${profile.calorieGoal} kcal.` : '';
 
-        const calorieInstruction = profile.calorieGoal 
-            ? `3.  Crucially, the total calories for each day must be very close to the user's goal of ${profile.calorieGoal} kcal.`
-            : `3.  Based on the user's profile, calculate an appropriate daily calorie total to help them achieve their goal (${profile.fitnessGoal}).`;
+        // The same targets the Dashboard tracks, so the plan can be checked against them afterwards.
+        const targets = getMealPlanTargets(profile);
+        const calorieInstruction = `3.  Crucially, each day's meals must add up to within ${Math.round(MEAL_PLAN_TOLERANCE.calories * 100)}% of ${targets.calories} kcal and provide about ${targets.protein} g of protein.`;
+
+        const { days } = request;
+        const mealCountInstruction = describeMealCount(request);
+        const planOptionsPrompt = describeMealPlanRequest(request);
 
         const prompt = `
-            You are an expert AI nutritionist. Based on the following user profile, create a personalized 3-day meal plan.
+            You are an expert AI nutritionist. Based on the following user profile, create a personalized ${days}-day meal plan.
             
             **User Profile:**
             - Age: ${profile.age}
@@ -390,13 +813,14 @@ export const generateMealPlan = async (profile: UserProfile): Promise<Omit<MealP
             - Primary Fitness Goal: ${profile.fitnessGoal}
             ${dietaryPreferencePrompt}
             ${calorieGoalPrompt}
+            ${planOptionsPrompt}
 
             **Instructions:**
             1.  The meal plan should be healthy, balanced, and delicious.
             2.  It must align with the user's fitness goal (${profile.fitnessGoal}) and dietary preferences.
             ${calorieInstruction}
-            4.  For each of the 3 days, provide specific meal suggestions for breakfast, lunch, and dinner.
-            5.  For each meal, provide a name, a short description, and an estimated calorie and protein count.
+            4.  For each of the ${days} days, provide exactly ${mealCountInstruction}, listed in the order they're eaten, respecting every requirement in the profile.
+            5.  For each meal, provide a name, a short description, an estimated calorie and protein count, and the ingredients for one serving with their amounts so the user can shop for them.
             6.  Calculate and provide the total estimated calories for each day.
             7.  Include some general nutritional advice or notes at the end.
             8.  Return the response in the specified JSON format.
@@ -412,45 +836,8 @@ export const generateMealPlan = async (profile: UserProfile): Promise<Omit<MealP
                     properties: {
                         plan: {
                             type: Type.ARRAY,
-                            description: "Array of daily meal plans for 3 days.",
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    day: { type: Type.STRING, description: "e.g., Day 1" },
-                                    breakfast: { 
-                                        type: Type.OBJECT, 
-                                        properties: {
-                                            name: { type: Type.STRING },
-                                            description: { type: Type.STRING },
-                                            calories: { type: Type.NUMBER },
-                                            protein: { type: Type.NUMBER },
-                                        },
-                                        required: ['name', 'description', 'calories', 'protein']
-                                    },
-                                    lunch: { 
-                                        type: Type.OBJECT, 
-                                        properties: {
-                                            name: { type: Type.STRING },
-                                            description: { type: Type.STRING },
-                                            calories: { type: Type.NUMBER },
-                                            protein: { type: Type.NUMBER },
-                                        },
-                                        required: ['name', 'description', 'calories', 'protein']
-                                    },
-                                    dinner: { 
-                                        type: Type.OBJECT, 
-                                        properties: {
-                                            name: { type: Type.STRING },
-                                            description: { type: Type.STRING },
-                                            calories: { type: Type.NUMBER },
-                                            protein: { type: Type.NUMBER },
-                                        },
-                                        required: ['name', 'description', 'calories', 'protein']
-                                    },
-                                    totalCalories: { type: Type.NUMBER, description: "Total calories for the day." },
-                                },
-                                required: ['day', 'breakfast', 'lunch', 'dinner', 'totalCalories']
-                            }
+                            description: `Array of daily meal plans for ${days} days.`,
+                            items: dailyPlanSchema
                         },
                         notes: { type: Type.STRING, description: "General nutritional advice." }
                     },
@@ -459,9 +846,9 @@ export const generateMealPlan = async (profile: UserProfile): Promise<Omit<MealP
             }
         });
 
+        let parsedResponse: Omit<MealPlan, 'id' | 'createdAt'>;
         try {
-            const parsedResponse = JSON.parse(response.text);
-            return parsedResponse as Omit<MealPlan, 'id' | 'createdAt'>;
+            parsedResponse = JSON.parse(response.text);
         } catch (parseError) {
             console.error("Error parsing JSON response from Gemini API in generateMealPlan:", {
                 responseText: response.text,
@@ -470,56 +857,76 @@ export const generateMealPlan = async (profile: UserProfile): Promise<Omit<MealP
             throw new Error("The AI returned an unexpected response format for the meal plan. Please try again.");
         }
 
+        const plan = await rebalanceMealPlan(profile, request, parsedResponse.plan, targets);
+        return { ...parsedResponse, plan, targets, request };
+
     } catch (error) {
         console.error("Error in generateMealPlan service:", error);
         throw new Error("Failed to generate your meal plan. The AI service may be temporarily unavailable. Please check your profile information and try again.");
     }
 };
 
+const SWAP_ALTERNATIVES = 3;
+
+/**
+ * Three replacements for one meal of a plan, close to its calories and protein
+ * so the rest of the day still adds up. Names in `excludedNames` (alternatives
+ * already offered) are not suggested again.
+ */
+export const suggestMealSwaps = async (
+  profile: UserProfile,
+  meal: Meal,
+  request: MealPlanRequest = DEFAULT_MEAL_PLAN_REQUEST,
+  excludedNames: string[] = [],
+): Promise<Meal[]> => {
+  try {
+    const excludedPrompt = excludedNames.length > 0
+      ? `- Already offered, so don't suggest these again: ${excludedNames.map(name => `"${name}"`).join(', ')}.`
+      : '';
+    const dietaryPreferencePrompt = profile.dietaryPreferences && profile.dietaryPreferences !== 'None'
+      ? `- Dietary Preferences: ${profile.dietaryPreferences}. Every alternative must follow them.`
+      : '';
+
+    const prompt = `
+      You are an expert AI nutritionist. The user wants to swap one ${meal.mealSlot === 'snacks' ? 'snack' : meal.mealSlot} in their meal plan:
+      "${meal.name}": ${meal.description} (${meal.calories} kcal, ${meal.protein} g protein)
+
+      Suggest ${SWAP_ALTERNATIVES} different alternatives. Each must be within 10% of ${meal.calories} kcal and ${meal.protein} g protein and clearly different from the original and from each other.
+      - Fitness goal: ${profile.fitnessGoal}
+      ${dietaryPreferencePrompt}
+      ${describeMealPlanRequest(request)}
+      ${excludedPrompt}
+
+      For each, give a name, a short description, calories, protein, and the ingredients for one serving with their amounts. Use mealSlot "${meal.mealSlot}".
+    `;
 
-export const lookupBarcode = async (barcode: string): Promise<MacroData | null> => {
-    try {
-        const response = await fetch(`https://world.openfoodfacts.org/api/v2/product/${barcode}.json`);
-        
-        if (!response.ok) {
-            console.warn(`Could not fetch data for barcode ${barcode}. Status: ${response.status}`);
-            return null;
-        }
-        
-        const data = await response.json();
-
-        if (data.status === 0 || !data.product) {
-            console.warn(`Barcode ${barcode} not found in Open Food Facts database.`);
-            return null;
-        }
-
-        const product = data.product;
-        const nutriments = product.nutriments;
-        
-        const servingSizeStr = product.serving_size || '100g';
-        
-        const calories = nutriments['energy-kcal_serving'] || nutriments['energy-kcal_100g'] || 0;
-        const protein = nutriments['proteins_serving'] || nutriments['proteins_100g'] || 0;
-        const carbohydrates = nutriments['carbohydrates_serving'] || nutriments['carbohydrates_100g'] || 0;
-        const fat = nutriments['fat_serving'] || nutriments['fat_100g'] || 0;
-        const sugar = nutriments['sugars_serving'] || nutriments['sugars_100g'] || 0;
-
-        if (!product.product_name || calories === 0) {
-            console.warn(`Incomplete data for barcode ${barcode}.`);
-            return null;
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { alternatives: { type: Type.ARRAY, items: planMealSchema } },
+          required: ['alternatives']
         }
+      }
+    });
 
-        return {
-            foodName: `${product.product_name} (${servingSizeStr})`,
-            calories: Math.round(calories),
-            protein: Math.round(protein * 10) / 10,
-            carbohydrates: Math.round(carbohydrates * 10) / 10,
-            fat: Math.round(fat * 10) / 10,
-            sugar: Math.round(sugar * 10) / 10,
-        };
-
-    } catch (error) {
-        console.error("Error looking up barcode in service:", error);
-        throw new Error("Could not connect to the food database. Please check your internet connection.");
+    try {
+      const parsed = JSON.parse(response.text ?? '');
+      const alternatives: Meal[] = Array.isArray(parsed.alternatives) ? parsed.alternatives : [];
+      // The swap replaces this exact meal, so it keeps its place in the day.
+      return alternatives.slice(0, SWAP_ALTERNATIVES).map(alternative => ({ ...alternative, mealSlot: meal.mealSlot }));
+    } catch (parseError) {
+      console.error("Error parsing JSON response from Gemini API in suggestMealSwaps:", {
+        responseText: response.text,
+        parseError,
+      });
+      throw new Error("The AI returned an unexpected response format. Please try again.");
     }
+  } catch (error) {
+    console.error("Error in suggestMealSwaps service:", error);
+    throw new Error("Couldn't find alternatives for this meal right now. Please try again.");
+  }
 };
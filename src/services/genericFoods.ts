@@ -0,0 +1,137 @@
+import type { PortionUnit } from '../types';
+
+/**
+ * Compact generic-food table based on USDA FoodData Central reference values.
+ * Nutrients are per 100 g (or 100 ml for drinks): kcal, protein, carbs, fat,
+ * sugar, fiber (g) and sodium (mg). Portions are [unit, label, grams].
+ */
+export type GenericFoodRow = [
+    name: string,
+    nutrients: [number, number, number, number, number, number, number],
+    portions: [PortionUnit, string, number][],
+    aliases?: string[],
+];
+
+export const GENERIC_FOODS: GenericFoodRow[] = [
+    // Fruit
+    ['Banana', [89, 1.1, 22.8, 0.3, 12.2, 2.6, 1], [['piece', 'medium banana (118 g)', 118], ['cup', 'cup, sliced (150 g)', 150]]],
+    ['Apple', [52, 0.3, 13.8, 0.2, 10.4, 2.4, 1], [['piece', 'medium apple (182 g)', 182], ['cup', 'cup, sliced (110 g)', 110]]],
+    ['Orange', [47, 0.9, 11.8, 0.1, 9.4, 2.4, 0], [['piece', 'medium orange (131 g)', 131]]],
+    ['Strawberries', [32, 0.7, 7.7, 0.3, 4.9, 2.0, 1], [['cup', 'cup, halves (152 g)', 152], ['piece', 'large strawberry (18 g)', 18]]],
+    ['Blueberries', [57, 0.7, 14.5, 0.3, 10.0, 2.4, 1], [['cup', 'cup (148 g)', 148]]],
+    ['Raspberries', [52, 1.2, 11.9, 0.7, 4.4, 6.5, 1], [['cup', 'cup (123 g)', 123]]],
+    ['Grapes', [69, 0.7, 18.1, 0.2, 15.5, 0.9, 2], [['cup', 'cup (151 g)', 151]]],
+    ['Avocado', [160, 2.0, 8.5, 14.7, 0.7, 6.7, 7], [['piece', 'half avocado (68 g)', 68], ['piece', 'whole avocado (136 g)', 136]], ['guacamole']],
+    ['Mango', [60, 0.8, 15.0, 0.4, 13.7, 1.6, 1], [['cup', 'cup, pieces (165 g)', 165]]],
+    ['Pineapple', [50, 0.5, 13.1, 0.1, 9.9, 1.4, 1], [['cup', 'cup, chunks (165 g)', 165]]],
+    ['Watermelon', [30, 0.6, 7.6, 0.2, 6.2, 0.4, 1], [['cup', 'cup, diced (152 g)', 152], ['piece', 'wedge (286 g)', 286]]],
+    ['Pear', [57, 0.4, 15.2, 0.1, 9.8, 3.1, 1], [['piece', 'medium pear (178 g)', 178]]],
+    ['Peach', [39, 0.9, 9.5, 0.3, 8.4, 1.5, 0], [['piece', 'medium peach (150 g)', 150]]],
+    ['Medjool dates', [277, 1.8, 75.0, 0.2, 66.5, 6.7, 1], [['piece', 'date (24 g)', 24]]],
+    ['Raisins', [299, 3.1, 79.2, 0.5, 59.2, 3.7, 11], [['serving', 'small box (43 g)', 43], ['cup', 'cup (145 g)', 145]]],
+
+    // Vegetables
+    ['Broccoli', [34, 2.8, 6.6, 0.4, 1.7, 2.6, 33], [['cup', 'cup, chopped (91 g)', 91]]],
+    ['Carrot', [41, 0.9, 9.6, 0.2, 4.7, 2.8, 69], [['piece', 'medium carrot (61 g)', 61], ['cup', 'cup, chopped (128 g)', 128]]],
+    ['Spinach', [23, 2.9, 3.6, 0.4, 0.4, 2.2, 79], [['cup', 'cup, raw (30 g)', 30]]],
+    ['Kale', [35, 2.9, 4.4, 1.5, 0.8, 4.1, 53], [['cup', 'cup, chopped (21 g)', 21]]],
+    ['Tomato', [18, 0.9, 3.9, 0.2, 2.6, 1.2, 5], [['piece', 'medium tomato (123 g)', 123], ['cup', 'cup, chopped (180 g)', 180]]],
+    ['Cucumber', [15, 0.7, 3.6, 0.1, 1.7, 0.5, 2], [['cup', 'cup, sliced (104 g)', 104]]],
+    ['Romaine lettuce', [17, 1.2, 3.3, 0.3, 1.2, 2.1, 8], [['cup', 'cup, shredded (47 g)', 47]], ['salad']],
+    ['Baked potato', [93, 2.5, 21.2, 0.1, 1.2, 2.2, 10], [['piece', 'medium potato (173 g)', 173]]],
+    ['Sweet potato', [90, 2.0, 20.7, 0.2, 6.5, 3.3, 36], [['piece', 'medium sweet potato (114 g)', 114]]],
+    ['Sweet corn', [96, 3.4, 21.0, 1.5, 4.5, 2.4, 1], [['piece', 'ear of corn (103 g)', 103], ['cup', 'cup, kernels (145 g)', 145]]],
+    ['Green peas', [84, 5.4, 15.6, 0.2, 5.9, 5.5, 3], [['cup', 'cup (160 g)', 160]]],
+    ['Red bell pepper', [31, 1.0, 6.0, 0.3, 4.2, 2.1, 4], [['piece', 'medium pepper (119 g)', 119]], ['capsicum']],
+    ['Onion', [40, 1.1, 9.3, 0.1, 4.2, 1.7, 4], [['piece', 'medium onion (110 g)', 110]]],
+    ['Mushrooms', [22, 3.1, 3.3, 0.3, 2.0, 1.0, 5], [['cup', 'cup, sliced (70 g)', 70]]],
+    ['Green beans', [35, 1.9, 7.9, 0.3, 3.6, 3.2, 1], [['cup', 'cup, cooked (125 g)', 125]]],
+    ['Cauliflower', [25, 1.9, 5.0, 0.3, 1.9, 2.0, 30], [['cup', 'cup, chopped (107 g)', 107]]],
+    ['Zucchini', [17, 1.2, 3.1, 0.3, 2.5, 1.0, 8], [['piece', 'medium zucchini (196 g)', 196]], ['courgette']],
+
+    // Grains and bakery
+    ['White rice, cooked', [130, 2.7, 28.2, 0.3, 0.1, 0.4, 1], [['cup', 'cup (158 g)', 158]]],
+    ['Brown rice, cooked', [123, 2.7, 25.6, 1.0, 0.2, 1.6, 4], [['cup', 'cup (195 g)', 195]]],
+    ['Pasta, cooked', [158, 5.8, 30.9, 0.9, 0.6, 1.8, 1], [['cup', 'cup (140 g)', 140]], ['spaghetti', 'noodles']],
+    ['Oatmeal, cooked', [71, 2.5, 12.0, 1.5, 0.3, 1.7, 4], [['cup', 'cup (234 g)', 234]], ['porridge']],
+    ['Rolled oats, dry', [379, 13.2, 67.7, 6.5, 1.0, 10.1, 6], [['serving', '½ cup (40 g)', 40]]],
+    ['Quinoa, cooked', [120, 4.4, 21.3, 1.9, 0.9, 2.8, 7], [['cup', 'cup (185 g)', 185]]],
+    ['White bread', [266, 8.9, 49.4, 3.3, 5.7, 2.7, 490], [['piece', 'slice (28 g)', 28]], ['toast']],
+    ['Whole wheat bread', [252, 12.5, 42.7, 3.5, 4.4, 6.0, 450], [['piece', 'slice (32 g)', 32]], ['toast']],
+    ['Bagel, plain', [257, 10.0, 50.5, 1.6, 5.1, 2.2, 443], [['piece', 'medium bagel (105 g)', 105]]],
+    ['Flour tortilla', [304, 8.2, 49.6, 7.7, 2.8, 3.5, 736], [['piece', 'medium tortilla (45 g)', 45]], ['wrap']],
+    ['Corn tortilla', [218, 5.7, 44.6, 2.9, 0.9, 6.3, 45], [['piece', 'tortilla (26 g)', 26]]],
+    ['Corn flakes', [357, 7.5, 84.0, 0.4, 9.5, 3.3, 729], [['cup', 'cup (28 g)', 28]], ['cereal']],
+    ['Granola', [471, 10.0, 64.0, 20.0, 24.0, 5.3, 26], [['serving', '½ cup (60 g)', 60]], ['muesli']],
+    ['Croissant', [406, 8.2, 45.8, 21.0, 11.3, 2.6, 467], [['piece', 'medium croissant (57 g)', 57]]],
+    ['Pancakes', [227, 6.4, 28.3, 9.7, 5.0, 0.9, 439], [['piece', '6" pancake (77 g)', 77]]],
+
+    // Meat, fish, eggs and legumes
+    ['Chicken breast, cooked', [165, 31.0, 0, 3.6, 0, 0, 74], [['serving', '3 oz (85 g)', 85], ['piece', 'half breast (172 g)', 172]], ['grilled chicken']],
+    ['Chicken thigh, cooked', [209, 26.0, 0, 10.9, 0, 0, 88], [['piece', 'thigh, meat only (52 g)', 52]]],
+    ['Ground beef 85% lean, cooked', [250, 25.9, 0, 15.4, 0, 0, 72], [['serving', '3 oz (85 g)', 85]], ['hamburger patty', 'mince']],
+    ['Sirloin steak, cooked', [206, 29.0, 0, 9.0, 0, 0, 56], [['serving', '3 oz (85 g)', 85]], ['beef']],
+    ['Pork chop, cooked', [231, 25.7, 0, 13.5, 0, 0, 62], [['piece', 'chop (145 g)', 145]]],
+    ['Bacon, cooked', [541, 37.0, 1.4, 42.0, 0, 0, 1717], [['piece', 'slice (8 g)', 8]]],
+    ['Turkey breast, deli', [104, 17.1, 4.2, 1.7, 3.5, 0.5, 1015], [['piece', 'slice (28 g)', 28]]],
+    ['Salmon, cooked', [206, 22.1, 0, 12.4, 0, 0, 61], [['serving', '3 oz (85 g)', 85], ['piece', 'fillet (154 g)', 154]]],
+    ['Tuna, canned in water', [116, 25.5, 0, 0.8, 0, 0, 338], [['piece', 'can, drained (165 g)', 165]]],
+    ['Shrimp, cooked', [99, 24.0, 0.2, 0.3, 0, 0, 111], [['serving', '3 oz (85 g)', 85]], ['prawns']],
+    ['Cod, cooked', [105, 22.8, 0, 0.9, 0, 0, 78], [['piece', 'fillet (180 g)', 180]], ['white fish']],
+    ['Egg', [143, 12.6, 0.7, 9.5, 0.4, 0, 142], [['piece', 'large egg (50 g)', 50]], ['scrambled eggs', 'fried egg']],
+    ['Hard-boiled egg', [155, 12.6, 1.1, 10.6, 1.1, 0, 124], [['piece', 'large egg (50 g)', 50]]],
+    ['Egg white', [52, 10.9, 0.7, 0.2, 0.7, 0, 166], [['piece', 'large egg white (33 g)', 33]]],
+    ['Tofu, firm', [144, 17.3, 2.8, 8.7, 0.6, 2.3, 14], [['serving', '½ cup (126 g)', 126]]],
+    ['Lentils, cooked', [116, 9.0, 20.1, 0.4, 1.8, 7.9, 2], [['cup', 'cup (198 g)', 198]], ['dal']],
+    ['Black beans, cooked', [132, 8.9, 23.7, 0.5, 0.3, 8.7, 1], [['cup', 'cup (172 g)', 172]]],
+    ['Chickpeas, cooked', [164, 8.9, 27.4, 2.6, 4.8, 7.6, 7], [['cup', 'cup (164 g)', 164]], ['garbanzo beans']],
+    ['Hummus', [166, 7.9, 14.3, 9.6, 0.3, 6.0, 379], [['serving', '2 tbsp (30 g)', 30]]],
+
+    // Dairy and alternatives
+    ['Whole milk', [61, 3.2, 4.8, 3.3, 5.1, 0, 43], [['cup', 'cup (244 ml)', 244]]],
+    ['2% milk', [50, 3.3, 4.8, 2.0, 5.1, 0, 47], [['cup', 'cup (244 ml)', 244]], ['semi-skimmed milk']],
+    ['Skim milk', [34, 3.4, 5.0, 0.1, 5.1, 0, 42], [['cup', 'cup (245 ml)', 245]]],
+    ['Almond milk, unsweetened', [15, 0.6, 0.3, 1.2, 0, 0.2, 72], [['cup', 'cup (240 ml)', 240]]],
+    ['Soy milk', [54, 3.3, 6.3, 1.8, 4.0, 0.6, 51], [['cup', 'cup (243 ml)', 243]]],
+    ['Greek yogurt, plain nonfat', [59, 10.2, 3.6, 0.4, 3.2, 0, 36], [['piece', 'container (170 g)', 170]], ['yoghurt']],
+    ['Plain yogurt, whole milk', [61, 3.5, 4.7, 3.3, 4.7, 0, 46], [['cup', 'cup (245 g)', 245]], ['yoghurt']],
+    ['Cheddar cheese', [403, 24.9, 1.3, 33.1, 0.5, 0, 621], [['piece', 'slice (28 g)', 28]]],
+    ['Mozzarella, part-skim', [254, 24.3, 2.8, 15.9, 1.1, 0, 619], [['serving', '1 oz (28 g)', 28]]],
+    ['Cottage cheese, 2%', [81, 10.5, 4.8, 2.3, 4.0, 0, 308], [['cup', 'cup (226 g)', 226]]],
+    ['Butter', [717, 0.9, 0.1, 81.1, 0.1, 0, 643], [['serving', 'tbsp (14 g)', 14]]],
+    ['Cream cheese', [342, 5.9, 4.1, 34.2, 3.2, 0, 321], [['serving', 'tbsp (14.5 g)', 14.5]]],
+    ['Vanilla ice cream', [207, 3.5, 23.6, 11.0, 21.2, 0.7, 80], [['serving', '½ cup (66 g)', 66]]],
+
+    // Nuts, seeds and fats
+    ['Almonds', [579, 21.2, 21.6, 49.9, 4.4, 12.5, 1], [['serving', '1 oz (28 g)', 28], ['piece', 'almond (1.2 g)', 1.2]]],
+    ['Walnuts', [654, 15.2, 13.7, 65.2, 2.6, 6.7, 2], [['serving', '1 oz (28 g)', 28]]],
+    ['Cashews', [553, 18.2, 30.2, 43.9, 5.9, 3.3, 12], [['serving', '1 oz (28 g)', 28]]],
+    ['Peanuts', [567, 25.8, 16.1, 49.2, 4.7, 8.5, 18], [['serving', '1 oz (28 g)', 28]]],
+    ['Peanut butter', [588, 25.1, 20.0, 50.4, 9.2, 6.0, 459], [['serving', 'tbsp (16 g)', 16]]],
+    ['Chia seeds', [486, 16.5, 42.1, 30.7, 0, 34.4, 16], [['serving', 'tbsp (12 g)', 12]]],
+    ['Olive oil', [884, 0, 0, 100, 0, 0, 2], [['serving', 'tbsp (13.5 g)', 13.5]]],
+
+    // Snacks, sweets and condiments
+    ['Dark chocolate, 70-85%', [598, 7.8, 45.9, 42.6, 24.0, 10.9, 20], [['serving', '1 oz (28 g)', 28]]],
+    ['Milk chocolate', [535, 7.7, 59.4, 29.7, 51.5, 3.4, 79], [['piece', 'bar (44 g)', 44]]],
+    ['Potato chips', [536, 7.0, 53.0, 35.0, 0.3, 4.4, 525], [['serving', '1 oz (28 g)', 28]], ['crisps']],
+    ['Popcorn, air-popped', [387, 12.9, 77.8, 4.5, 0.9, 14.5, 8], [['cup', 'cup (8 g)', 8]]],
+    ['Pretzels', [380, 10.3, 79.8, 2.9, 2.6, 2.9, 1357], [['serving', '1 oz (28 g)', 28]]],
+    ['Honey', [304, 0.3, 82.4, 0, 82.1, 0.2, 4], [['serving', 'tbsp (21 g)', 21]]],
+    ['Sugar', [387, 0, 100, 0, 100, 0, 1], [['serving', 'tsp (4.2 g)', 4.2]]],
+    ['Jam', [278, 0.4, 68.9, 0.1, 48.5, 1.1, 32], [['serving', 'tbsp (20 g)', 20]], ['jelly', 'preserves']],
+    ['Ketchup', [101, 1.0, 27.4, 0.1, 22.8, 0.3, 907], [['serving', 'tbsp (17 g)', 17]]],
+    ['Mayonnaise', [680, 1.0, 0.6, 74.9, 0.6, 0, 635], [['serving', 'tbsp (13.8 g)', 13.8]]],
+
+    // Prepared foods
+    ['Cheese pizza', [266, 11.4, 33.3, 9.7, 3.6, 2.3, 598], [['piece', 'slice (107 g)', 107]]],
+    ['French fries', [312, 3.4, 41.4, 14.7, 0.3, 3.8, 210], [['serving', 'medium serving (117 g)', 117]], ['chips']],
+
+    // Drinks
+    ['Orange juice', [45, 0.7, 10.4, 0.2, 8.4, 0.2, 1], [['cup', 'cup (248 ml)', 248]]],
+    ['Apple juice', [46, 0.1, 11.3, 0.1, 9.6, 0.2, 4], [['cup', 'cup (248 ml)', 248]]],
+    ['Cola', [42, 0, 10.6, 0, 9.0, 0, 4], [['piece', 'can (355 ml)', 355]], ['soda', 'soft drink']],
+    ['Coffee, brewed', [1, 0.1, 0, 0, 0, 0, 2], [['cup', 'cup (237 ml)', 237]]],
+    ['Beer', [43, 0.5, 3.6, 0, 0, 0, 4], [['piece', 'can (355 ml)', 355]]],
+    ['Red wine', [85, 0.1, 2.6, 0, 0.6, 0, 4], [['serving', 'glass (147 ml)', 147]]],
+];
@@ -0,0 +1,70 @@
+import type { UserProfile, NutritionGoals } from '../types';
+
+export const DEFAULT_CALORIE_GOAL = 2000;
+export const DEFAULT_WATER_GOAL = 8;
+
+const CALORIES_PER_GRAM = {
+    protein: 4,
+    carbohydrates: 4,
+    fat: 9,
+};
+
+interface MacroSplit {
+    protein: number;
+    carbohydrates: number;
+    fat: number;
+}
+
+// Share of daily calories coming from each macro, by fitness goal.
+const GOAL_SPLITS: Record<NonNullable<UserProfile['fitnessGoal']>, MacroSplit> = {
+    'Lose Weight': { protein: 0.30, carbohydrates: 0.40, fat: 0.30 },
+    'Maintain Weight': { protein: 0.25, carbohydrates: 0.45, fat: 0.30 },
+    'Build Muscle': { protein: 0.30, carbohydrates: 0.45, fat: 0.25 },
+};
+
+// Diets that dictate their own macro balance regardless of the fitness goal.
+const DIET_SPLITS: Partial<Record<NonNullable<UserProfile['dietaryPreferences']>, MacroSplit>> = {
+    'Keto': { protein: 0.20, carbohydrates: 0.05, fat: 0.75 },
+    'Low-Carb': { protein: 0.30, carbohydrates: 0.20, fat: 0.50 },
+    'Carnivore': { protein: 0.35, carbohydrates: 0.02, fat: 0.63 },
+};
+
+const getMacroSplit = (profile: UserProfile): MacroSplit => {
+    const dietSplit = profile.dietaryPreferences ? DIET_SPLITS[profile.dietaryPreferences] : undefined;
+    if (dietSplit) return dietSplit;
+    return GOAL_SPLITS[profile.fitnessGoal || 'Maintain Weight'];
+};
+
+/**
+ * Targets derived purely from the profile's calorie goal, fitness goal and diet,
+ * ignoring any manual overrides.
+ */
+export const getRecommendedGoals = (profile: UserProfile): NutritionGoals => {
+    const calories = profile.calorieGoal && profile.calorieGoal > 0 ? profile.calorieGoal : DEFAULT_CALORIE_GOAL;
+    const split = getMacroSplit(profile);
+
+    return {
+        calories,
+        protein: Math.round((calories * split.protein) / CALORIES_PER_GRAM.protein),
+        carbohydrates: Math.round((calories * split.carbohydrates) / CALORIES_PER_GRAM.carbohydrates),
+        fat: Math.round((calories * split.fat) / CALORIES_PER_GRAM.fat),
+        water: DEFAULT_WATER_GOAL,
+    };
+};
+
+/**
+ * The daily targets every screen should use: the recommended goals with the
+ * user's per-target overrides from Profile applied on top.
+ */
+export const getNutritionGoals = (profile: UserProfile): NutritionGoals => {
+    const recommended = getRecommendedGoals(profile);
+    const overrides = profile.goalOverrides || {};
+
+    return {
+        calories: recommended.calories,
+        protein: overrides.protein ?? recommended.protein,
+        carbohydrates: overrides.carbohydrates ?? recommended.carbohydrates,
+        fat: overrides.fat ?? recommended.fat,
+        water: overrides.water ?? recommended.water,
+    };
+};
@@ -0,0 +1,181 @@
+import type { GroceryAisle, GroceryItem, GroceryList, MealPlan, Recipe } from '../types';
+import { formatIngredient, getIngredientUnit, parseIngredient } from './ingredients';
+import { groceryListStore } from './storage';
+import { getPlanMealLabel } from './mealPlans';
+
+/** A named set of ingredient lines to shop for, e.g. one meal of a plan. */
+export interface GrocerySource {
+    label: string;
+    ingredients: string[];
+}
+
+export const GROCERY_AISLES: { id: GroceryAisle; label: string }[] = [
+    { id: 'produce', label: 'Produce' },
+    { id: 'meat', label: 'Meat & Seafood' },
+    { id: 'dairy', label: 'Dairy & Eggs' },
+    { id: 'bakery', label: 'Bakery' },
+    { id: 'pantry', label: 'Pantry' },
+    { id: 'spices', label: 'Spices & Seasonings' },
+    { id: 'frozen', label: 'Frozen' },
+    { id: 'beverages', label: 'Beverages' },
+    { id: 'other', label: 'Other' },
+];
+
+// Keywords match whole words (plurals included) and are checked in order, so
+// the more specific aisles come first ("chicken broth" is pantry, "frozen peas"
+// frozen). Stems in PREFIX_KEYWORDS match any word they start.
+const AISLE_KEYWORDS: [GroceryAisle, string[]][] = [
+    ['frozen', ['frozen', 'ice cream']],
+    ['spices', ['salt', 'pepper flakes', 'black pepper', 'cumin', 'paprika', 'cinnamon', 'oregano', 'thyme', 'chili powder', 'curry', 'turmeric', 'nutmeg', 'seasoning', 'spice', 'garlic powder', 'onion powder', 'bay lea', 'vanilla']],
+    ['pantry', ['peanut', 'almond', 'oil', 'vinegar', 'flour', 'sugar', 'honey', 'syrup', 'rice', 'pasta', 'spaghetti', 'noodle', 'oat', 'quinoa', 'lentil', 'bean', 'chickpea', 'stock', 'broth', 'sauce', 'canned', 'tomato paste', 'nut', 'walnut', 'cashew', 'seed', 'chia', 'baking', 'cocoa', 'chocolate', 'granola', 'cereal', 'mustard', 'mayo', 'mayonnaise', 'ketchup', 'jam', 'protein powder', 'couscous', 'chip', 'cornstarch']],
+    ['meat', ['chicken', 'beef', 'pork', 'turkey', 'lamb', 'bacon', 'sausage', 'ham', 'steak', 'mince', 'salmon', 'tuna', 'cod', 'shrimp', 'prawn', 'fish', 'tilapia', 'tofu', 'tempeh']],
+    ['beverages', ['juice', 'coffee', 'tea', 'water', 'soda', 'wine', 'beer', 'kombucha']],
+    ['produce', ['apple', 'banana', 'berr', 'strawberr', 'blueberr', 'raspberr', 'lemon', 'lime', 'orange', 'grape', 'mango', 'pineapple', 'grapefruit', 'melon', 'watermelon', 'avocado', 'tomato', 'onion', 'garlic', 'shallot', 'ginger', 'potato', 'carrot', 'celery', 'pepper', 'cucumber', 'zucchini', 'courgette', 'squash', 'pumpkin', 'eggplant', 'broccoli', 'cauliflower', 'spinach', 'kale', 'lettuce', 'arugula', 'cabbage', 'mushroom', 'pea', 'corn', 'asparagus', 'herb', 'parsley', 'cilantro', 'coriander', 'basil', 'mint', 'dill', 'chive', 'scallion', 'green onion', 'leek', 'beet', 'radish', 'fruit', 'vegetable', 'greens', 'sprout']],
+    ['dairy', ['milk', 'cheese', 'cheddar', 'yogurt', 'yoghurt', 'butter', 'cream', 'egg', 'feta', 'parmesan', 'mozzarella', 'ricotta', 'cottage']],
+    ['bakery', ['bread', 'breadcrumb', 'bagel', 'bun', 'roll', 'tortilla', 'pita', 'wrap', 'croissant', 'muffin']],
+];
+
+const PREFIX_KEYWORDS = new Set(['berr', 'strawberr', 'blueberr', 'raspberr', 'bay lea']);
+
+const AISLE_PATTERNS = AISLE_KEYWORDS.map(([aisle, keywords]) => {
+    const stems = keywords.filter(keyword => PREFIX_KEYWORDS.has(keyword));
+    const words = keywords.filter(keyword => !PREFIX_KEYWORDS.has(keyword));
+    const alternatives = [...stems, `(${words.join('|')})(e?s)?\\b`];
+    return [aisle, new RegExp(`\\b(${alternatives.join('|')})`)] as const;
+});
+
+export const getGroceryAisle = (name: string): GroceryAisle =>
+    AISLE_PATTERNS.find(([, pattern]) => pattern.test(name.toLowerCase()))?.[0] ?? 'other';
+
+const singularize = (word: string) =>
+    word.endsWith('ies') ? `${word.slice(0, -3)}y`
+        : /(o|ch|sh|x)es$/.test(word) ? word.slice(0, -2)
+        : word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1)
+        : word;
+
+// Sizes don't change what goes in the basket.
+const IGNORED_WORDS = new Set(['large', 'medium', 'small', 'fresh', 'ripe']);
+
+// "2 large Eggs" and "1 egg" are the same thing to buy.
+const normalizeName = (name: string) =>
+    name.toLowerCase().replace(/[^a-z0-9\s-]/g, '').split(/\s+/)
+        .filter(word => word && !IGNORED_WORDS.has(word))
+        .map(singularize)
+        .join(' ');
+
+const isPlural = (name: string) => {
+    const lastWord = name.toLowerCase().split(' ').pop() || '';
+    return singularize(lastWord) !== lastWord;
+};
+
+/** Meals that come with ingredients, labelled like "Day 1 · Lunch: Chicken salad". */
+export const planToGrocerySources = (plan: MealPlan): GrocerySource[] =>
+    plan.plan.flatMap(day =>
+        day.meals
+            .filter(meal => meal.ingredients?.length)
+            .map(meal => ({ label: `${day.day} · ${getPlanMealLabel(meal)}: ${meal.name}`, ingredients: meal.ingredients! }))
+    );
+
+export const recipesToGrocerySources = (recipes: Recipe[]): GrocerySource[] =>
+    recipes.map(recipe => ({ label: recipe.title, ingredients: recipe.ingredients }));
+
+/**
+ * Adds up every ingredient across the sources. Lines for the same food are
+ * merged when their amounts can be converted into each other (cups and ml,
+ * oz and g, or the same count unit); otherwise they stay separate items.
+ */
+export const buildGroceryList = (title: string, sources: GrocerySource[]): GroceryList => {
+    const items = new Map<string, GroceryItem>();
+
+    sources.forEach(source => {
+        source.ingredients.forEach(line => {
+            const parsed = parseIngredient(line);
+            const unit = getIngredientUnit(parsed.unit);
+            const amount = parsed.quantityMax ?? parsed.quantity;
+            const measure = amount === undefined ? 'any' : !unit ? 'each' : unit.kind === 'count' ? unit.id : unit.kind;
+            const id = `${normalizeName(parsed.name)}|${measure}`;
+
+            const existing = items.get(id);
+            if (!existing) {
+                items.set(id, {
+                    id,
+                    name: parsed.name,
+                    ...(amount !== undefined ? { quantity: amount } : {}),
+                    ...(unit ? { unit: unit.id } : {}),
+                    aisle: getGroceryAisle(parsed.name),
+                    checked: false,
+                    sources: [source.label],
+                });
+                return;
+            }
+            if (amount !== undefined && existing.quantity !== undefined) {
+                const existingUnit = getIngredientUnit(existing.unit);
+                const factor = unit?.toBase && existingUnit?.toBase ? unit.toBase / existingUnit.toBase : 1;
+                existing.quantity += amount * factor;
+                // Keep "3 onions" from reading as "3 onion" when the first line asked for one.
+                if (!existing.unit && isPlural(parsed.name) && !isPlural(existing.name)) existing.name = parsed.name;
+            }
+            if (!existing.sources.includes(source.label)) existing.sources.push(source.label);
+        });
+    });
+
+    return {
+        id: `grocery_${Date.now()}`,
+        title,
+        createdAt: new Date().toISOString(),
+        items: [...items.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    };
+};
+
+export const formatGroceryItem = (item: GroceryItem): string =>
+    item.quantity === undefined
+        ? item.name
+        : formatIngredient({ original: item.name, name: item.name, quantity: item.quantity, unit: item.unit });
+
+export const groupGroceryItems = (items: GroceryItem[]) =>
+    GROCERY_AISLES
+        .map(aisle => ({ ...aisle, items: items.filter(item => item.aisle === aisle.id) }))
+        .filter(group => group.items.length > 0);
+
+export const toggleGroceryItem = (id: string) => {
+    groceryListStore.update(list => list && {
+        ...list,
+        items: list.items.map(item => (item.id === id ? { ...item, checked: !item.checked } : item)),
+    });
+};
+
+export const groceryListToText = (list: GroceryList): string => {
+    const sections = groupGroceryItems(list.items).map(group =>
+        [group.label.toUpperCase(), ...group.items.map(item => `${item.checked ? '[x]' : '[ ]'} ${formatGroceryItem(item)}`)].join('\n')
+    );
+    return [list.title, ...sections].join('\n\n');
+};
+
+/**
+ * Hands the list to the system share sheet where there is one and copies it
+ * to the clipboard otherwise. Resolves to how it was shared.
+ */
+export const shareGroceryList = async (list: GroceryList): Promise<'shared' | 'copied'> => {
+    const text = groceryListToText(list);
+    if (navigator.share) {
+        try {
+            await navigator.share({ title: list.title, text });
+            return 'shared';
+        } catch (error) {
+            // Dismissing the share sheet isn't a failure worth falling back for.
+            if ((error as DOMException).name === 'AbortError') return 'shared';
+        }
+    }
+    await navigator.clipboard.writeText(text);
+    return 'copied';
+};
+
+export const downloadGroceryList = (list: GroceryList) => {
+    const blob = new Blob([groceryListToText(list)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `grocery-list-${list.createdAt.slice(0, 10)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,254 @@
+import type { MeasurementSystem, ParsedIngredient } from '../types';
+
+type UnitKind = 'volume' | 'weight' | 'count';
+
+interface UnitInfo {
+    id: string;
+    kind: UnitKind;
+    singular: string;
+    plural: string;
+    toBase?: number; // millilitres for volume, grams for weight
+    system?: MeasurementSystem;
+    aliases: string[];
+}
+
+export const INGREDIENT_UNITS: UnitInfo[] = [
+    { id: 'tsp', kind: 'volume', singular: 'tsp', plural: 'tsp', toBase: 4.92892, system: 'us', aliases: ['teaspoons', 'teaspoon', 'tsps', 'tsp'] },
+    { id: 'tbsp', kind: 'volume', singular: 'tbsp', plural: 'tbsp', toBase: 14.7868, system: 'us', aliases: ['tablespoons', 'tablespoon', 'tbsps', 'tbsp', 'tbs', 'tbl'] },
+    { id: 'floz', kind: 'volume', singular: 'fl oz', plural: 'fl oz', toBase: 29.5735, system: 'us', aliases: ['fluid ounces', 'fluid ounce', 'fl. oz', 'fl oz'] },
+    { id: 'cup', kind: 'volume', singular: 'cup', plural: 'cups', toBase: 236.588, system: 'us', aliases: ['cups', 'cup', 'c'] },
+    { id: 'pint', kind: 'volume', singular: 'pint', plural: 'pints', toBase: 473.176, system: 'us', aliases: ['pints', 'pint', 'pt'] },
+    { id: 'quart', kind: 'volume', singular: 'quart', plural: 'quarts', toBase: 946.353, system: 'us', aliases: ['quarts', 'quart', 'qt'] },
+    { id: 'gallon', kind: 'volume', singular: 'gallon', plural: 'gallons', toBase: 3785.41, system: 'us', aliases: ['gallons', 'gallon', 'gal'] },
+    { id: 'ml', kind: 'volume', singular: 'ml', plural: 'ml', toBase: 1, system: 'metric', aliases: ['milliliters', 'milliliter', 'millilitres', 'millilitre', 'ml'] },
+    { id: 'dl', kind: 'volume', singular: 'dl', plural: 'dl', toBase: 100, system: 'metric', aliases: ['deciliters', 'deciliter', 'decilitres', 'decilitre', 'dl'] },
+    { id: 'l', kind: 'volume', singular: 'l', plural: 'l', toBase: 1000, system: 'metric', aliases: ['liters', 'liter', 'litres', 'litre', 'l'] },
+    { id: 'oz', kind: 'weight', singular: 'oz', plural: 'oz', toBase: 28.3495, system: 'us', aliases: ['ounces', 'ounce', 'oz'] },
+    { id: 'lb', kind: 'weight', singular: 'lb', plural: 'lb', toBase: 453.592, system: 'us', aliases: ['pounds', 'pound', 'lbs', 'lb'] },
+    { id: 'g', kind: 'weight', singular: 'g', plural: 'g', toBase: 1, system: 'metric', aliases: ['grams', 'gram', 'gr', 'g'] },
+    { id: 'kg', kind: 'weight', singular: 'kg', plural: 'kg', toBase: 1000, system: 'metric', aliases: ['kilograms', 'kilogram', 'kilos', 'kilo', 'kg'] },
+    { id: 'pinch', kind: 'count', singular: 'pinch', plural: 'pinches', aliases: ['pinches', 'pinch'] },
+    { id: 'dash', kind: 'count', singular: 'dash', plural: 'dashes', aliases: ['dashes', 'dash'] },
+    { id: 'clove', kind: 'count', singular: 'clove', plural: 'cloves', aliases: ['cloves', 'clove'] },
+    { id: 'slice', kind: 'count', singular: 'slice', plural: 'slices', aliases: ['slices', 'slice'] },
+    { id: 'piece', kind: 'count', singular: 'piece', plural: 'pieces', aliases: ['pieces', 'piece'] },
+    { id: 'can', kind: 'count', singular: 'can', plural: 'cans', aliases: ['cans', 'can', 'tins', 'tin'] },
+    { id: 'jar', kind: 'count', singular: 'jar', plural: 'jars', aliases: ['jars', 'jar'] },
+    { id: 'package', kind: 'count', singular: 'package', plural: 'packages', aliases: ['packages', 'package', 'packets', 'packet', 'pkgs', 'pkg'] },
+    { id: 'stick', kind: 'count', singular: 'stick', plural: 'sticks', aliases: ['sticks', 'stick'] },
+    { id: 'bunch', kind: 'count', singular: 'bunch', plural: 'bunches', aliases: ['bunches', 'bunch'] },
+    { id: 'handful', kind: 'count', singular: 'handful', plural: 'handfuls', aliases: ['handfuls', 'handful'] },
+    { id: 'sprig', kind: 'count', singular: 'sprig', plural: 'sprigs', aliases: ['sprigs', 'sprig'] },
+    { id: 'stalk', kind: 'count', singular: 'stalk', plural: 'stalks', aliases: ['stalks', 'stalk'] },
+    { id: 'head', kind: 'count', singular: 'head', plural: 'heads', aliases: ['heads', 'head'] },
+];
+
+const UNITS_BY_ID = new Map(INGREDIENT_UNITS.map(unit => [unit.id, unit]));
+
+export const getIngredientUnit = (id?: string): UnitInfo | undefined => (id ? UNITS_BY_ID.get(id) : undefined);
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+    '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+    '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5, dozen: 12,
+};
+
+// Words that read like an amount but aren't one: "a few", "a little".
+const VAGUE_AMOUNTS = ['few', 'little', 'bit', 'couple', 'splash', 'drizzle'];
+
+// Descriptors that lead the name but describe preparation, as in "3/4 cup packed brown sugar".
+const PREPARATION_WORDS = new Set([
+    'packed', 'lightly', 'firmly', 'loosely', 'heaping', 'heaped', 'level', 'scant', 'finely', 'roughly', 'coarsely',
+    'thinly', 'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'melted', 'softened', 'sifted', 'crushed',
+    'cubed', 'halved', 'quartered', 'peeled', 'beaten', 'room-temperature',
+]);
+
+const TRAILING_NOTES = /\s+(to taste|for (?:garnish|serving|dusting|frying|greasing)|optional|divided|or more|plus more.*|at room temperature)$/i;
+
+const NUMBER = String.raw`\d+\s+\d+/\d+|\d+/\d+|\d*\.\d+|\d+`;
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|—|to|or)\\s*(${NUMBER}))?\\s*`, 'i');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const UNIT_PATTERN = new RegExp(
+    `^(${INGREDIENT_UNITS.flatMap(unit => unit.aliases).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\\.?(?=[\\s,)]|$)\\s*(?:of\\s+)?`,
+    'i',
+);
+
+const parseNumber = (text: string): number => {
+    const [whole, fraction] = text.includes(' ') ? text.split(/\s+/) : text.includes('/') ? ['0', text] : [text, ''];
+    if (!fraction) return parseFloat(whole);
+    const [numerator, denominator] = fraction.split('/').map(Number);
+    return parseFloat(whole) + (denominator ? numerator / denominator : 0);
+};
+
+const normalizeText = (text: string) =>
+    text
+        .replace(/(\d)?\s?([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole, fraction) => `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`)
+        .replace(/⁄/g, '/')
+        .replace(/^[\s\-•*–]+/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Splits an ingredient line such as "1 1/2-2 cups packed brown sugar, divided"
+ * into quantity, unit, name and notes. Anything it can't place stays in the name.
+ */
+export const parseIngredient = (original: string): ParsedIngredient => {
+    let rest = normalizeText(original);
+    const notes: string[] = [];
+    const parsed: ParsedIngredient = { original, name: '' };
+
+    const quantityMatch = rest.match(QUANTITY_PATTERN);
+    if (quantityMatch) {
+        parsed.quantity = parseNumber(quantityMatch[1]);
+        if (quantityMatch[2]) parsed.quantityMax = parseNumber(quantityMatch[2]);
+        rest = rest.slice(quantityMatch[0].length);
+    } else {
+        const [firstWord, secondWord = ''] = rest.toLowerCase().split(' ');
+        if (firstWord in NUMBER_WORDS && !VAGUE_AMOUNTS.includes(secondWord)) {
+            parsed.quantity = NUMBER_WORDS[firstWord];
+            // "half an onion" is half of one onion, and "half a dozen" six.
+            rest = rest.slice(firstWord.length).trim().replace(/^an?\s+/i, '');
+            if (firstWord !== 'dozen' && /^dozen\b/i.test(rest)) {
+                parsed.quantity *= NUMBER_WORDS.dozen;
+                rest = rest.slice('dozen'.length).trim();
+            }
+        }
+    }
+
+    // A package size right after the amount: "1 (14 oz) can tomatoes".
+    const packageSize = rest.match(/^\(([^)]*)\)\s*/);
+    if (packageSize) {
+        notes.push(packageSize[1].trim());
+        rest = rest.slice(packageSize[0].length);
+    }
+
+    const unitMatch = rest.match(UNIT_PATTERN);
+    if (unitMatch) {
+        const alias = unitMatch[1];
+        // "T" is a tablespoon and "t" a teaspoon; otherwise case doesn't matter.
+        const unit = alias === 'T' ? UNITS_BY_ID.get('tbsp')
+            : alias === 't' ? UNITS_BY_ID.get('tsp')
+            : INGREDIENT_UNITS.find(info => info.aliases.includes(alias.toLowerCase()));
+        if (unit) {
+            parsed.unit = unit.id;
+            rest = rest.slice(unitMatch[0].length);
+        }
+    } else if (/^[Tt](?=[\s.])/.test(rest) && parsed.quantity !== undefined) {
+        parsed.unit = rest[0] === 'T' ? 'tbsp' : 'tsp';
+        rest = rest.replace(/^[Tt]\.?\s*/, '');
+    }
+
+    rest = rest.replace(/\s*\(([^)]*)\)/g, (_, inside: string) => {
+        notes.push(inside.trim());
+        return '';
+    });
+
+    const commaIndex = rest.indexOf(',');
+    if (commaIndex !== -1) {
+        notes.push(rest.slice(commaIndex + 1).trim());
+        rest = rest.slice(0, commaIndex);
+    }
+
+    const trailing = rest.match(TRAILING_NOTES);
+    if (trailing) {
+        notes.push(trailing[1]);
+        rest = rest.slice(0, trailing.index);
+    }
+
+    const words = rest.trim().split(' ');
+    const leading: string[] = [];
+    while (words.length > 1 && PREPARATION_WORDS.has(words[0].toLowerCase())) {
+        leading.push(words.shift()!);
+    }
+    if (leading.length > 0) notes.unshift(leading.join(' '));
+
+    parsed.name = words.join(' ').trim() || normalizeText(original);
+    const noteText = notes.filter(Boolean).join(', ');
+    if (noteText) parsed.notes = noteText;
+    return parsed;
+};
+
+export const scaleIngredient = (ingredient: ParsedIngredient, factor: number): ParsedIngredient => {
+    if (ingredient.quantity === undefined || factor === 1) return ingredient;
+    return {
+        ...ingredient,
+        quantity: ingredient.quantity * factor,
+        ...(ingredient.quantityMax !== undefined ? { quantityMax: ingredient.quantityMax * factor } : {}),
+    };
+};
+
+const pickTargetUnit = (kind: UnitKind, baseAmount: number, system: MeasurementSystem): UnitInfo => {
+    const id = kind === 'weight'
+        ? system === 'metric' ? (baseAmount >= 1000 ? 'kg' : 'g') : (baseAmount >= 453.592 ? 'lb' : 'oz')
+        : system === 'metric' ? (baseAmount >= 1000 ? 'l' : 'ml') : (baseAmount < 14 ? 'tsp' : baseAmount < 59 ? 'tbsp' : 'cup');
+    return UNITS_BY_ID.get(id)!;
+};
+
+/**
+ * Converts weights and volumes to the other measurement system. Counts like
+ * "2 cloves" are left alone. With `rescaled`, amounts already in `system` also
+ * move to the unit that suits their new size, so 1000 g reads as 1 kg.
+ */
+export const convertIngredient = (ingredient: ParsedIngredient, system: MeasurementSystem, rescaled = false): ParsedIngredient => {
+    const unit = getIngredientUnit(ingredient.unit);
+    if (ingredient.quantity === undefined || !unit?.toBase || (unit.system === system && !rescaled)) return ingredient;
+
+    const baseAmount = ingredient.quantity * unit.toBase;
+    const target = pickTargetUnit(unit.kind, baseAmount, system);
+    const convert = (amount: number) => (amount * unit.toBase!) / target.toBase!;
+    return {
+        ...ingredient,
+        quantity: convert(ingredient.quantity),
+        ...(ingredient.quantityMax !== undefined ? { quantityMax: convert(ingredient.quantityMax) } : {}),
+        unit: target.id,
+    };
+};
+
+const FRACTIONS: [number, string][] = [
+    [0, ''], [1 / 8, '⅛'], [1 / 4, '¼'], [1 / 3, '⅓'], [3 / 8, '⅜'], [1 / 2, '½'], [5 / 8, '⅝'], [2 / 3, '⅔'], [3 / 4, '¾'], [7 / 8, '⅞'], [1, ''],
+];
+
+/** Metric amounts as rounded decimals, US and count amounts as kitchen fractions ("1½"). */
+export const formatQuantity = (value: number, unitId?: string): string => {
+    if (getIngredientUnit(unitId)?.system === 'metric') {
+        const rounded = value >= 100 ? Math.round(value / 5) * 5 : value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+        return String(rounded);
+    }
+    let whole = Math.floor(value);
+    const [fraction, glyph] = FRACTIONS.reduce((best, candidate) =>
+        Math.abs(candidate[0] - (value - whole)) < Math.abs(best[0] - (value - whole)) ? candidate : best
+    );
+    if (fraction === 1) whole += 1;
+    if (whole === 0 && !glyph) return value > 0 ? '⅛' : '0';
+    return `${whole > 0 ? whole : ''}${glyph}`;
+};
+
+export const formatIngredient = (ingredient: ParsedIngredient): string => {
+    if (ingredient.quantity === undefined) return ingredient.original;
+    const unit = getIngredientUnit(ingredient.unit);
+    // Rounded to the nearest eighth so "1.02 cup" reads as "1 cup", not "1 cups".
+    const amount = Math.round((ingredient.quantityMax ?? ingredient.quantity) * 8) / 8;
+    const parts = [
+        `${formatQuantity(ingredient.quantity, ingredient.unit)}${ingredient.quantityMax !== undefined ? `–${formatQuantity(ingredient.quantityMax, ingredient.unit)}` : ''}`,
+        unit ? (amount > 1 ? unit.plural : unit.singular) : '',
+        ingredient.name,
+    ];
+    return `${parts.filter(Boolean).join(' ')}${ingredient.notes ? `, ${ingredient.notes}` : ''}`;
+};
+
+/**
+ * How an ingredient line reads for `factor` times the recipe in the chosen
+ * system. Lines without an amount ("salt to taste") keep their original text.
+ */
+export const formatIngredientLine = (line: string, factor: number, system: MeasurementSystem | 'original'): string => {
+    if (factor === 1 && system === 'original') return line;
+    const parsed = parseIngredient(line);
+    if (parsed.quantity === undefined) return line;
+    const scaled = scaleIngredient(parsed, factor);
+    return formatIngredient(system === 'original' ? scaled : convertIngredient(scaled, system, factor !== 1));
+};
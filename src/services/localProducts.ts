@@ -0,0 +1,43 @@
+import type { FoodProduct, NutritionLabel, ScannedLabel } from '../types';
+import type { FoodProvider } from './foodProviders';
+import { contributionsStore, scannedLabelsStore } from './storage';
+import { contributionToProduct } from './contributions';
+
+export const labelToProduct = (label: NutritionLabel, barcode?: string): FoodProduct => ({
+    ...(barcode ? { barcode } : {}),
+    name: label.productName?.trim() || 'Packaged food',
+    baseUnit: label.servingUnit === 'ml' ? 'ml' : 'g',
+    perServing: label.perServing,
+    servingSize: label.servingSize || undefined,
+    servingAmount: label.servingAmount,
+    servingsPerContainer: label.servingsPerContainer,
+    sources: ['local'],
+});
+
+const fromScannedLabel = ({ barcode, label }: ScannedLabel) => labelToProduct(label, barcode);
+
+/** Products the user entered on this device. They win over any database. */
+export const localProductsProvider: FoodProvider = {
+    id: 'local',
+    name: 'My products',
+    priority: 100,
+
+    findByBarcode: async (barcode) => {
+        const contribution = contributionsStore.get()[barcode];
+        if (contribution) return contributionToProduct(contribution);
+        const saved = scannedLabelsStore.get()[barcode];
+        return saved ? fromScannedLabel(saved) : null;
+    },
+
+    search: async (query, limit) => {
+        const needle = query.trim().toLowerCase();
+        if (!needle) return [];
+        const contributions = Object.values(contributionsStore.get())
+            .filter(contribution => `${contribution.name} ${contribution.brand || ''}`.toLowerCase().includes(needle))
+            .map(contributionToProduct);
+        const labels = Object.values(scannedLabelsStore.get())
+            .filter(saved => !contributionsStore.get()[saved.barcode] && saved.label.productName?.toLowerCase().includes(needle))
+            .map(fromScannedLabel);
+        return [...contributions, ...labels].slice(0, limit);
+    },
+};
@@ -0,0 +1,240 @@
+import type { DailyLogEntry } from '../types';
+import { dailyLogsStore, type DailyLogs } from './storage';
+import { getUserTimeZone, resolveLegacyTimestamp, toDateKey } from './dateUtils';
+
+const DB_NAME = 'nutrisnap';
+const DB_VERSION = 3;
+const ENTRIES_STORE = 'logEntries';
+const IMAGES_STORE = 'mealImages';
+const PRODUCT_PHOTOS_STORE = 'productPhotos';
+
+interface StoredLogEntry {
+    id: string;
+    date: string; // YYYY-MM-DD day key
+    position: number; // order within the day, 0 = most recent
+    entry: DailyLogEntry;
+}
+
+interface StoredMealImage {
+    entryId: string;
+    blob: Blob;
+}
+
+interface StoredProductPhoto {
+    barcode: string;
+    blob: Blob;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+    });
+
+const toStoredEntries = (date: string, entries: DailyLogEntry[]): StoredLogEntry[] =>
+    entries.map((entry, position) => ({ id: entry.id, date, position, entry }));
+
+/**
+ * Entries written before v2 were bucketed by UTC day and only kept a localized
+ * time string. Convert them to an ISO instant and move them to their local day.
+ */
+const rebucketLegacyRecord = (record: StoredLogEntry): StoredLogEntry => {
+    if (record.entry.timeZone) return record;
+
+    const timeZone = getUserTimeZone();
+    const instant = resolveLegacyTimestamp(record.date, record.entry.timestamp);
+    if (!instant) {
+        return { ...record, entry: { ...record.entry, timeZone } };
+    }
+    return {
+        ...record,
+        date: toDateKey(instant, timeZone),
+        entry: { ...record.entry, timestamp: instant.toISOString(), timeZone },
+    };
+};
+
+/**
+ * One-time import of the old `nutrisnap_dailyLogs` localStorage blob. The blob
+ * is only removed once every day has been written successfully.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+    const legacyLogs = dailyLogsStore.get();
+    const dates = Object.keys(legacyLogs);
+    if (dates.length === 0) return;
+
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRIES_STORE);
+    dates.forEach(date => {
+        toStoredEntries(date, legacyLogs[date]).forEach(record => store.put(rebucketLegacyRecord(record)));
+    });
+    await transactionDone(transaction);
+    dailyLogsStore.remove();
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+                const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+                entries.createIndex('date', 'date');
+            }
+            if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+                db.createObjectStore(IMAGES_STORE, { keyPath: 'entryId' });
+            }
+            if (!db.objectStoreNames.contains(PRODUCT_PHOTOS_STORE)) {
+                db.createObjectStore(PRODUCT_PHOTOS_STORE, { keyPath: 'barcode' });
+            }
+            if (event.oldVersion === 1) {
+                const cursorRequest = request.transaction!.objectStore(ENTRIES_STORE).openCursor();
+                cursorRequest.onsuccess = () => {
+                    const cursor = cursorRequest.result;
+                    if (!cursor) return;
+                    cursor.update(rebucketLegacyRecord(cursor.value as StoredLogEntry));
+                    cursor.continue();
+                };
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+        try {
+            await migrateFromLocalStorage(db);
+        } catch (error) {
+            console.error("Failed to migrate food logs from localStorage to IndexedDB. The old data was left in place.", error);
+        }
+        return db;
+    });
+
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+    return dbPromise;
+};
+
+const groupByDate = (records: StoredLogEntry[]): DailyLogs => {
+    const logs: DailyLogs = {};
+    records
+        .sort((a, b) => a.position - b.position)
+        .forEach(record => {
+            (logs[record.date] ||= []).push(record.entry);
+        });
+    return logs;
+};
+
+export const getDayLog = async (date: string): Promise<DailyLogEntry[]> => {
+    const db = await openDatabase();
+    const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('date');
+    const records = await requestToPromise(index.getAll(IDBKeyRange.only(date)) as IDBRequest<StoredLogEntry[]>);
+    return groupByDate(records)[date] || [];
+};
+
+/**
+ * Returns every logged day between the two day keys (inclusive), keyed by date.
+ * Days without entries are omitted.
+ */
+export const getLogsInRange = async (startDate: string, endDate: string): Promise<DailyLogs> => {
+    const db = await openDatabase();
+    const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('date');
+    const records = await requestToPromise(index.getAll(IDBKeyRange.bound(startDate, endDate)) as IDBRequest<StoredLogEntry[]>);
+    return groupByDate(records);
+};
+
+/** All day keys that have at least one entry, in ascending order. */
+export const getLoggedDates = async (): Promise<string[]> => {
+    const db = await openDatabase();
+    const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('date');
+    const dates: string[] = [];
+
+    return new Promise((resolve, reject) => {
+        const request = index.openKeyCursor(null, 'nextunique');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                dates.push(cursor.key as string);
+                cursor.continue();
+            } else {
+                resolve(dates);
+            }
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Replaces the entries stored for one day. Only that day's records are touched,
+ * and images belonging to removed meals are deleted with them.
+ */
+export const saveDayLog = async (date: string, entries: DailyLogEntry[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite');
+    const entriesStore = transaction.objectStore(ENTRIES_STORE);
+    const imagesStore = transaction.objectStore(IMAGES_STORE);
+
+    const existingIds = await requestToPromise(entriesStore.index('date').getAllKeys(IDBKeyRange.only(date)));
+    const keptIds = new Set(entries.map(entry => entry.id));
+    existingIds.forEach(id => {
+        if (!keptIds.has(id as string)) {
+            entriesStore.delete(id);
+            imagesStore.delete(id);
+        }
+    });
+    toStoredEntries(date, entries).forEach(record => entriesStore.put(record));
+
+    await transactionDone(transaction);
+};
+
+/**
+ * Adds one entry to a day without loading it into the UI first. Day logs are
+ * newest first, so the entry goes where its timestamp puts it.
+ */
+export const addDayLogEntry = async (date: string, entry: DailyLogEntry): Promise<void> => {
+    const log = await getDayLog(date);
+    const index = log.findIndex(existing => Date.parse(existing.timestamp) < Date.parse(entry.timestamp));
+    await saveDayLog(date, index === -1 ? [...log, entry] : [...log.slice(0, index), entry, ...log.slice(index)]);
+};
+
+export const saveMealImage = async (entryId: string, blob: Blob): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+    const record: StoredMealImage = { entryId, blob };
+    transaction.objectStore(IMAGES_STORE).put(record);
+    await transactionDone(transaction);
+};
+
+export const getMealImage = async (entryId: string): Promise<Blob | null> => {
+    const db = await openDatabase();
+    const record = await requestToPromise(
+        db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(entryId) as IDBRequest<StoredMealImage | undefined>
+    );
+    return record?.blob || null;
+};
+
+/** Label photos of products the user added themselves, keyed by barcode. */
+export const saveProductPhoto = async (barcode: string, blob: Blob): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(PRODUCT_PHOTOS_STORE, 'readwrite');
+    const record: StoredProductPhoto = { barcode, blob };
+    transaction.objectStore(PRODUCT_PHOTOS_STORE).put(record);
+    await transactionDone(transaction);
+};
+
+export const getProductPhoto = async (barcode: string): Promise<Blob | null> => {
+    const db = await openDatabase();
+    const record = await requestToPromise(
+        db.transaction(PRODUCT_PHOTOS_STORE).objectStore(PRODUCT_PHOTOS_STORE).get(barcode) as IDBRequest<StoredProductPhoto | undefined>
+    );
+    return record?.blob || null;
+};
@@ -0,0 +1,150 @@
+import type { ActivePlan, DailyPlan, DailyLogEntry, MacroData, Meal, MealPlan, MealPlanRequest, MealPlanTargets, UserProfile } from '../types';
+import type { DailyLogs } from './storage';
+import { MEAL_SLOT_LABELS } from './mealSlots';
+import { getNutritionGoals } from './goals';
+import { createPortionedItem } from './portions';
+import { daysBetween, shiftDateKey } from './dateUtils';
+
+export const DEFAULT_MEAL_PLAN_REQUEST: MealPlanRequest = {
+    days: 3,
+    mealsPerDay: 3,
+    snacksPerDay: 0,
+    excludedIngredients: [],
+    cuisines: [],
+};
+
+export const MEAL_PLAN_LIMITS = {
+    days: { min: 1, max: 14 },
+    mealsPerDay: { min: 1, max: 3 }, // one each of breakfast, lunch and dinner
+    snacksPerDay: { min: 0, max: 3 },
+};
+
+export const CUISINE_OPTIONS = ['Mediterranean', 'American', 'Mexican', 'Italian', 'Asian', 'Indian', 'Middle Eastern', 'Japanese'];
+
+export const PREP_TIME_OPTIONS = [15, 30, 45, 60];
+
+/** Fills in anything missing from a saved request, e.g. one saved before a field existed. */
+export const resolveMealPlanRequest = (saved: Partial<MealPlanRequest> | null): MealPlanRequest => {
+    const request = { ...DEFAULT_MEAL_PLAN_REQUEST, ...saved };
+    // Older versions allowed more main meals than there are slots for.
+    return { ...request, mealsPerDay: Math.min(request.mealsPerDay, MEAL_PLAN_LIMITS.mealsPerDay.max) };
+};
+
+export const getPlanMealLabel = (meal: Meal): string =>
+    meal.mealSlot === 'snacks' ? 'Snack' : MEAL_SLOT_LABELS[meal.mealSlot] ?? 'Meal';
+
+// How far a day may drift from the targets, as a share of the target.
+export const MEAL_PLAN_TOLERANCE: MealPlanTargets = { calories: 0.10, protein: 0.15 };
+
+export const getMealPlanTargets = (profile: UserProfile): MealPlanTargets => {
+    const goals = getNutritionGoals(profile);
+    return { calories: goals.calories, protein: goals.protein };
+};
+
+/** The day with its totals worked out from its meals rather than taken on trust. */
+export const withDayTotals = (day: DailyPlan): DailyPlan => ({
+    ...day,
+    totalCalories: Math.round(day.meals.reduce((sum, meal) => sum + (Number(meal.calories) || 0), 0)),
+    totalProtein: Math.round(day.meals.reduce((sum, meal) => sum + (Number(meal.protein) || 0), 0)),
+});
+
+export interface DayDeviation {
+    calories: number; // relative to the target, e.g. 0.12 is 12% over
+    protein: number;
+    isOnTarget: boolean;
+}
+
+export const getDayDeviation = (day: DailyPlan, targets: MealPlanTargets): DayDeviation => {
+    const { totalCalories, totalProtein = 0 } = withDayTotals(day);
+    const calories = targets.calories > 0 ? totalCalories / targets.calories - 1 : 0;
+    const protein = targets.protein > 0 ? totalProtein / targets.protein - 1 : 0;
+    return {
+        calories,
+        protein,
+        isOnTarget: Math.abs(calories) <= MEAL_PLAN_TOLERANCE.calories && Math.abs(protein) <= MEAL_PLAN_TOLERANCE.protein,
+    };
+};
+
+/** A deviation as a signed percentage, e.g. "+12%" or "−5%"; no sign when it rounds to zero. */
+export const formatDeviation = (value: number): string => {
+    const percent = Math.round(value * 100);
+    return `${percent > 0 ? '+' : percent < 0 ? '−' : ''}${Math.abs(percent)}%`;
+};
+
+/** How badly a day misses, in multiples of the tolerance; 1 or less is on target. */
+export const getDeviationScore = (deviation: DayDeviation): number =>
+    Math.max(Math.abs(deviation.calories) / MEAL_PLAN_TOLERANCE.calories, Math.abs(deviation.protein) / MEAL_PLAN_TOLERANCE.protein);
+
+/**
+ * A new version of the plan with one meal replaced and that day's totals
+ * recomputed. The original is left untouched so both stay in the history.
+ */
+export const replacePlanMeal = (plan: MealPlan, dayIndex: number, mealIndex: number, meal: Meal): MealPlan => ({
+    ...plan,
+    id: `plan_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+    version: (plan.version ?? 1) + 1,
+    basedOnId: plan.id,
+    plan: plan.plan.map((day, index) =>
+        index === dayIndex ? withDayTotals({ ...day, meals: day.meals.map((m, i) => (i === mealIndex ? meal : m)) }) : day
+    ),
+});
+
+export interface ActivePlanDay {
+    plan: MealPlan;
+    rootId: string;
+    dayIndex: number;
+    day: DailyPlan;
+}
+
+/** The id of the first version of a plan, which stays the same as meals are swapped. */
+export const getPlanRootId = (history: MealPlan[], plan: MealPlan): string => {
+    let rootId = plan.id;
+    let current: MealPlan | undefined = plan;
+    while (current?.basedOnId) {
+        rootId = current.basedOnId;
+        current = history.find(p => p.id === rootId);
+    }
+    return rootId;
+};
+
+/** The active plan's day that falls on `dateKey`, or null outside the plan. */
+export const getActivePlanDay = (history: MealPlan[], active: ActivePlan | null, dateKey: string): ActivePlanDay | null => {
+    const plan = active && history.find(p => p.id === active.planId);
+    if (!plan) return null;
+    const dayIndex = daysBetween(active.startDate, dateKey);
+    const day = plan.plan[dayIndex];
+    return day ? { plan, rootId: getPlanRootId(history, plan), dayIndex, day } : null;
+};
+
+/** Identifies a planned meal across every version of its plan, so logs still match after a swap. */
+export const getPlanMealId = (rootId: string, dayIndex: number, mealIndex: number) => `${rootId}:${dayIndex}:${mealIndex}`;
+
+/** Plans only estimate calories and protein, so the other macros are logged as unknown. */
+export const plannedMealToFoodItem = (meal: Meal): MacroData => ({
+    ...createPortionedItem(meal.name, {
+        unit: 'serving',
+        perUnit: { calories: meal.calories, protein: meal.protein, carbohydrates: 0, fat: 0, sugar: 0 },
+    }, 1),
+    unknownNutrients: ['carbohydrates', 'fat', 'sugar'],
+});
+
+export interface PlanAdherenceDay {
+    date: string;
+    planned: number;
+    eaten: number;
+}
+
+const sumEatenCalories = (entries: DailyLogEntry[]) =>
+    entries.reduce((sum, entry) => sum + (entry.type === 'meal' ? entry.items.reduce((s, item) => s + item.calories, 0) : 0), 0);
+
+/** Planned vs. eaten calories for every day of the active plan up to `todayKey`. */
+export const getPlanAdherence = (plan: MealPlan, active: ActivePlan, logs: DailyLogs, todayKey: string): PlanAdherenceDay[] =>
+    plan.plan
+        .map((day, index) => ({ day, date: shiftDateKey(active.startDate, index) }))
+        .filter(({ date }) => date <= todayKey)
+        .map(({ day, date }) => ({
+            date,
+            planned: withDayTotals(day).totalCalories,
+            eaten: Math.round(sumEatenCalories(logs[date] || [])),
+        }));
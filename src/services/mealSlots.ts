@@ -0,0 +1,39 @@
+import type { LoggedMealItem, MealSlot } from '../types';
+
+export const MEAL_SLOTS: { id: MealSlot; label: string }[] = [
+    { id: 'breakfast', label: 'Breakfast' },
+    { id: 'lunch', label: 'Lunch' },
+    { id: 'dinner', label: 'Dinner' },
+    { id: 'snacks', label: 'Snacks' },
+];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+    breakfast: 'Breakfast',
+    lunch: 'Lunch',
+    dinner: 'Dinner',
+    snacks: 'Snacks',
+};
+
+// Default share of the daily calorie goal, used as a hint when setting budgets.
+export const SUGGESTED_SLOT_SHARES: Record<MealSlot, number> = {
+    breakfast: 0.25,
+    lunch: 0.35,
+    dinner: 0.30,
+    snacks: 0.10,
+};
+
+/** Picks the most likely meal from the local time of day. */
+export const suggestMealSlot = (date: Date = new Date()): MealSlot => {
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    if (minutes >= 4 * 60 && minutes < 10 * 60 + 30) return 'breakfast';
+    if (minutes >= 11 * 60 && minutes < 14 * 60 + 30) return 'lunch';
+    if (minutes >= 17 * 60 && minutes < 21 * 60 + 30) return 'dinner';
+    return 'snacks';
+};
+
+/** The slot a meal belongs to; entries logged before slots existed are placed by their time. */
+export const getMealSlot = (entry: LoggedMealItem): MealSlot => {
+    if (entry.mealSlot) return entry.mealSlot;
+    const loggedAt = new Date(entry.timestamp);
+    return isNaN(loggedAt.getTime()) ? 'snacks' : suggestMealSlot(loggedAt);
+};
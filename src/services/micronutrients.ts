@@ -0,0 +1,80 @@
+import type { MicronutrientKey, Micronutrients } from '../types';
+
+export interface MicronutrientInfo {
+    key: MicronutrientKey;
+    label: string;
+    unit: 'g' | 'mg' | 'µg';
+    offKey: string; // Open Food Facts nutriment name, always reported in grams
+    isLimit?: boolean; // the daily value is a maximum rather than a target
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+    { key: 'fiber', label: 'Fiber', unit: 'g', offKey: 'fiber' },
+    { key: 'saturatedFat', label: 'Saturated Fat', unit: 'g', offKey: 'saturated-fat', isLimit: true },
+    { key: 'sodium', label: 'Sodium', unit: 'mg', offKey: 'sodium', isLimit: true },
+    { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', offKey: 'cholesterol', isLimit: true },
+    { key: 'potassium', label: 'Potassium', unit: 'mg', offKey: 'potassium' },
+    { key: 'calcium', label: 'Calcium', unit: 'mg', offKey: 'calcium' },
+    { key: 'iron', label: 'Iron', unit: 'mg', offKey: 'iron' },
+    { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', offKey: 'vitamin-a' },
+    { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', offKey: 'vitamin-c' },
+    { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', offKey: 'vitamin-d' },
+];
+
+export const MICRONUTRIENT_KEYS = MICRONUTRIENTS.map(info => info.key);
+
+const GRAMS_TO_UNIT = { g: 1, mg: 1000, 'µg': 1000000 };
+
+type DailyValues = Record<MicronutrientKey, number>;
+
+// Label Daily Values for adults; Dietary Reference Intakes for younger ages.
+// The profile has no sex field, so the higher of the male/female values is used.
+const DAILY_VALUES_BY_AGE: { maxAge: number; values: DailyValues }[] = [
+    { maxAge: 8, values: { fiber: 25, saturatedFat: 15, sodium: 1500, cholesterol: 300, potassium: 2300, calcium: 1000, iron: 10, vitaminA: 400, vitaminC: 25, vitaminD: 15 } },
+    { maxAge: 13, values: { fiber: 31, saturatedFat: 18, sodium: 1800, cholesterol: 300, potassium: 2500, calcium: 1300, iron: 8, vitaminA: 600, vitaminC: 45, vitaminD: 15 } },
+    { maxAge: 18, values: { fiber: 38, saturatedFat: 20, sodium: 2300, cholesterol: 300, potassium: 3000, calcium: 1300, iron: 15, vitaminA: 900, vitaminC: 75, vitaminD: 15 } },
+    { maxAge: 50, values: { fiber: 28, saturatedFat: 20, sodium: 2300, cholesterol: 300, potassium: 4700, calcium: 1300, iron: 18, vitaminA: 900, vitaminC: 90, vitaminD: 20 } },
+    { maxAge: Infinity, values: { fiber: 28, saturatedFat: 20, sodium: 2300, cholesterol: 300, potassium: 4700, calcium: 1200, iron: 8, vitaminA: 900, vitaminC: 90, vitaminD: 20 } },
+];
+
+/** Recommended daily amounts for the given age; adults when the age is unknown. */
+export const getDailyValues = (age?: number): DailyValues => {
+    const effectiveAge = age && age > 0 ? age : 30;
+    return DAILY_VALUES_BY_AGE.find(band => effectiveAge <= band.maxAge)!.values;
+};
+
+/**
+ * Reads micronutrients from an Open Food Facts `nutriments` object for the
+ * given suffix ('100g' or 'serving'). Nutrients the product doesn't list are left out.
+ */
+export const readOffMicronutrients = (nutriments: Record<string, unknown>, suffix: '100g' | 'serving'): Micronutrients =>
+    MICRONUTRIENTS.reduce<Micronutrients>((acc, info) => {
+        const value = Number(nutriments[`${info.offKey}_${suffix}`]);
+        if (nutriments[`${info.offKey}_${suffix}`] !== undefined && !isNaN(value)) {
+            acc[info.key] = value * GRAMS_TO_UNIT[info.unit];
+        }
+        return acc;
+    }, {});
+
+export interface MicronutrientTotals {
+    totals: Micronutrients; // only nutrients at least one item reported
+    itemCounts: Partial<Record<MicronutrientKey, number>>; // how many items contributed to each total
+    itemCount: number;
+}
+
+export const sumMicronutrients = (items: Micronutrients[]): MicronutrientTotals => {
+    const totals: Micronutrients = {};
+    const itemCounts: Partial<Record<MicronutrientKey, number>> = {};
+    items.forEach(item => {
+        MICRONUTRIENT_KEYS.forEach(key => {
+            const value = item[key];
+            if (value === undefined) return;
+            totals[key] = (totals[key] || 0) + value;
+            itemCounts[key] = (itemCounts[key] || 0) + 1;
+        });
+    });
+    return { totals, itemCounts, itemCount: items.length };
+};
+
+export const formatMicronutrient = (info: MicronutrientInfo, value: number): string =>
+    `${value < 10 ? Math.round(value * 10) / 10 : Math.round(value)} ${info.unit}`;
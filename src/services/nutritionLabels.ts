@@ -0,0 +1,20 @@
+import type { MacroData, NutritionLabel } from '../types';
+import { scannedLabelsStore } from './storage';
+import { labelToProduct } from './localProducts';
+import { productToFoodItem } from './foodProviders';
+
+/**
+ * A loggable item for one serving of a labelled product. The metric amount and
+ * the whole container are offered as alternative portions when the label states them.
+ * Null when no calories were read.
+ */
+export const labelToFoodItem = (label: NutritionLabel): MacroData | null =>
+    productToFoodItem(labelToProduct(label));
+
+/** Remembers a label under the barcode that had no match, so the next scan resolves offline. */
+export const saveScannedLabel = (barcode: string, label: NutritionLabel) => {
+    scannedLabelsStore.update(labels => ({
+        ...labels,
+        [barcode]: { barcode, label, savedAt: new Date().toISOString() },
+    }));
+};
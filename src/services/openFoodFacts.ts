@@ -0,0 +1,145 @@
+import type { FoodProduct, Nutrients } from '../types';
+import type { FoodProvider } from './foodProviders';
+import { readOffMicronutrients } from './micronutrients';
+
+const API_URL = 'https://world.openfoodfacts.org';
+const PRODUCT_FIELDS = 'code,product_name,brands,nutriments,serving_size,serving_quantity,product_quantity_unit';
+const KJ_PER_KCAL = 4.184;
+
+type OffNutriments = Record<string, unknown>;
+
+interface OffProduct {
+    code?: string;
+    product_name?: string;
+    brands?: string;
+    nutriments?: OffNutriments;
+    serving_size?: string;
+    serving_quantity?: number | string;
+    product_quantity_unit?: string;
+}
+
+const readNumber = (nutriments: OffNutriments, key: string): number | undefined => {
+    const raw = nutriments[key];
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    const value = Number(raw);
+    return isNaN(value) ? undefined : value;
+};
+
+/** Only the values Open Food Facts actually has; a missing field is unknown, not 0. */
+const readNutrients = (nutriments: OffNutriments, suffix: '100g' | 'serving'): Partial<Nutrients> | undefined => {
+    const kilojoules = readNumber(nutriments, `energy-kj_${suffix}`) ?? readNumber(nutriments, `energy_${suffix}`);
+    const values: Partial<Nutrients> = {
+        calories: readNumber(nutriments, `energy-kcal_${suffix}`) ?? (kilojoules !== undefined ? kilojoules / KJ_PER_KCAL : undefined),
+        protein: readNumber(nutriments, `proteins_${suffix}`),
+        carbohydrates: readNumber(nutriments, `carbohydrates_${suffix}`),
+        fat: readNumber(nutriments, `fat_${suffix}`),
+        sugar: readNumber(nutriments, `sugars_${suffix}`),
+        ...readOffMicronutrients(nutriments, suffix),
+    };
+    const known = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+    return Object.keys(known).length > 0 ? known : undefined;
+};
+
+const toFoodProduct = (product: OffProduct, barcode?: string): FoodProduct | null => {
+    if (!product.product_name) return null;
+    const nutriments = product.nutriments || {};
+    const servingAmount = parseFloat(String(product.serving_quantity ?? '')) || undefined;
+    return {
+        barcode: barcode || product.code,
+        name: product.product_name,
+        brand: product.brands?.split(',')[0].trim() || undefined,
+        baseUnit: product.product_quantity_unit === 'ml' ? 'ml' : 'g',
+        per100: readNutrients(nutriments, '100g'),
+        perServing: readNutrients(nutriments, 'serving'),
+        servingSize: product.serving_size || undefined,
+        servingAmount,
+        sources: ['openfoodfacts'],
+    };
+};
+
+const fetchJson = async (url: string) => {
+    if (!navigator.onLine) {
+        throw new Error("You're offline, so the food database can't be reached.");
+    }
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch (error) {
+        console.error("Error contacting Open Food Facts:", error);
+        throw new Error("Could not connect to the food database. Please check your internet connection.");
+    }
+    // Only a 404 means the product is unknown; anything else is worth asking again later.
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        console.warn(`Open Food Facts request failed. Status: ${response.status}`);
+        throw new Error("The food database is unavailable right now. Please try again in a moment.");
+    }
+    try {
+        return await response.json();
+    } catch (error) {
+        console.error("Error reading the Open Food Facts response:", error);
+        throw new Error("The food database sent an unexpected response. Please try again.");
+    }
+};
+
+export const openFoodFactsProvider: FoodProvider = {
+    id: 'openfoodfacts',
+    name: 'Open Food Facts',
+    priority: 0,
+
+    findByBarcode: async (barcode) => {
+        const data = await fetchJson(`${API_URL}/api/v2/product/${encodeURIComponent(barcode)}.json?fields=${PRODUCT_FIELDS}`);
+        if (!data || data.status === 0 || !data.product) {
+            console.warn(`Barcode ${barcode} not found in Open Food Facts database.`);
+            return null;
+        }
+        return toFoodProduct(data.product, barcode);
+    },
+
+    search: async (query, limit) => {
+        const params = new URLSearchParams({
+            search_terms: query,
+            search_simple: '1',
+            action: 'process',
+            json: '1',
+            page_size: String(limit),
+            fields: PRODUCT_FIELDS,
+        });
+        const data = await fetchJson(`${API_URL}/cgi/search.pl?${params}`);
+        const products: OffProduct[] = data?.products || [];
+        return products
+            .map(product => toFoodProduct(product))
+            .filter((product): product is FoodProduct => product !== null);
+    },
+};
+
+/** Form fields accepted by the Open Food Facts product write API. */
+export type OffProductPayload = Record<string, string>;
+
+const postForm = async (path: string, form: FormData) => {
+    const response = await fetch(`${API_URL}${path}`, { method: 'POST', body: form });
+    const result = response.ok ? await response.json() : null;
+    // The product API answers with status 1, the image upload with "status ok".
+    if (!result || (result.status !== 1 && result.status !== 'status ok')) {
+        console.warn(`Open Food Facts rejected the submission to ${path}.`, result);
+        throw new Error("Open Food Facts didn't accept the product. It was kept on this device so you can try again later.");
+    }
+};
+
+/** Sends a new product, and its nutrition label photo if there is one, to Open Food Facts. */
+export const submitProduct = async (payload: OffProductPayload, labelPhoto?: Blob | null): Promise<void> => {
+    if (!navigator.onLine) {
+        throw new Error("You're offline. The product will be shared when you're back online.");
+    }
+    const product = new FormData();
+    Object.entries(payload).forEach(([key, value]) => product.append(key, value));
+    await postForm('/cgi/product_jqm2.pl', product);
+
+    if (labelPhoto) {
+        const image = new FormData();
+        image.append('code', payload.code);
+        image.append('imagefield', 'nutrition');
+        image.append('imgupload_nutrition', labelPhoto, `${payload.code}-nutrition.jpg`);
+        await postForm('/cgi/product_image_upload.pl', image);
+    }
+};
@@ -0,0 +1,111 @@
+import type { MacroData, Nutrients, Portion, PortionBasis, PortionUnit } from '../types';
+import { MICRONUTRIENT_KEYS } from './micronutrients';
+
+export const PORTION_UNITS: { id: PortionUnit; label: string }[] = [
+    { id: 'g', label: 'grams' },
+    { id: 'ml', label: 'ml' },
+    { id: 'cup', label: 'cups' },
+    { id: 'piece', label: 'pieces' },
+    { id: 'serving', label: 'servings' },
+];
+
+export const MACRO_KEYS = ['calories', 'protein', 'carbohydrates', 'fat', 'sugar'] as const;
+
+const round = (value: number, decimals: number) => {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+};
+
+/** Applies `transform` to every macro and to each micronutrient the source actually has. */
+const mapNutrients = (source: Nutrients, transform: (value: number, key: keyof Nutrients) => number): Nutrients => {
+    const result = {} as Nutrients;
+    MACRO_KEYS.forEach(key => {
+        result[key] = transform(source[key], key);
+    });
+    MICRONUTRIENT_KEYS.forEach(key => {
+        const value = source[key];
+        if (value !== undefined) result[key] = transform(value, key);
+    });
+    return result;
+};
+
+/** Nutrients for `quantity` units, rounded the way the log displays them. */
+export const scaleNutrients = (perUnit: Nutrients, quantity: number): Nutrients =>
+    mapNutrients(perUnit, (value, key) => round(value * quantity, key === 'calories' ? 0 : 1));
+
+/** Per-unit nutrients from totals measured over `quantity` units. */
+export const divideNutrients = (totals: Nutrients, quantity: number): Nutrients =>
+    mapNutrients(totals, value => (quantity > 0 ? value / quantity : 0));
+
+export const pickNutrients = (item: Nutrients): Nutrients => mapNutrients(item, value => value);
+
+/** Replaces every nutrient on the item, dropping micronutrients the new values don't have. */
+const withNutrients = (item: MacroData, nutrients: Nutrients): MacroData => {
+    const result = { ...item };
+    MICRONUTRIENT_KEYS.forEach(key => delete result[key]);
+    return { ...result, ...nutrients };
+};
+
+/**
+ * The item's portion, or "1 serving" of its current totals for items logged
+ * before portions were tracked.
+ */
+export const getPortion = (item: MacroData): Portion =>
+    item.portion || { quantity: 1, unit: 'serving', perUnit: pickNutrients(item) };
+
+/** Builds an item whose totals are `quantity` units of `basis`. */
+export const createPortionedItem = (foodName: string, basis: PortionBasis, quantity: number, portionOptions?: PortionBasis[]): MacroData => ({
+    foodName,
+    ...scaleNutrients(basis.perUnit, quantity),
+    portion: { ...basis, quantity },
+    ...(portionOptions ? { portionOptions } : {}),
+});
+
+/** Changes how much was eaten; every nutrient is rescaled from the per-unit values. */
+export const setPortionQuantity = (item: MacroData, quantity: number): MacroData => {
+    const portion = getPortion(item);
+    return { ...withNutrients(item, scaleNutrients(portion.perUnit, quantity)), portion: { ...portion, quantity } };
+};
+
+/** Switches to another unit from `portionOptions`, starting from that unit's default amount. */
+export const switchPortionBasis = (item: MacroData, basis: PortionBasis): MacroData => {
+    const quantity = basis.defaultQuantity ?? (basis.unit === 'g' || basis.unit === 'ml' ? 100 : 1);
+    return { ...withNutrients(item, scaleNutrients(basis.perUnit, quantity)), portion: { ...basis, quantity } };
+};
+
+/** Sets one nutrient total directly and keeps the per-unit values consistent with it. */
+export const setNutrientTotal = (item: MacroData, key: keyof Nutrients, value: number): MacroData => {
+    const updated = { ...item, [key]: value };
+    if (item.unknownNutrients) {
+        const unknownNutrients = item.unknownNutrients.filter(unknown => unknown !== key);
+        if (unknownNutrients.length > 0) updated.unknownNutrients = unknownNutrients;
+        else delete updated.unknownNutrients;
+    }
+    const portion = getPortion(item);
+    return { ...updated, portion: { ...portion, perUnit: divideNutrients(pickNutrients(updated), portion.quantity) } };
+};
+
+/** All units the item can be measured in, with the current one first. */
+export const getPortionOptions = (item: MacroData): PortionBasis[] => {
+    const current = getPortion(item);
+    const others = (item.portionOptions || []).filter(option => option.unit !== current.unit || option.label !== current.label);
+    return [current, ...others];
+};
+
+const pluralize = (noun: string, quantity: number) => {
+    if (quantity === 1 || !/^[a-z ]+$/i.test(noun)) return noun;
+    return /(s|x|ch|sh)$/i.test(noun) ? `${noun}es` : `${noun}s`;
+};
+
+export const formatPortionUnit = (basis: PortionBasis, quantity = 1): string => {
+    if (basis.unit === 'g' || basis.unit === 'ml') return basis.unit;
+    return pluralize(basis.label || basis.unit, quantity);
+};
+
+/** e.g. "1.5 bowls", "150 g", "2 × bar (45 g)". */
+export const formatPortion = (portion: Portion): string => {
+    const quantity = round(portion.quantity, 2);
+    const unit = formatPortionUnit(portion, quantity);
+    const separator = quantity !== 1 && unit === (portion.label || portion.unit) && portion.unit !== 'g' && portion.unit !== 'ml' ? ' × ' : ' ';
+    return `${quantity}${separator}${unit}`;
+};
@@ -0,0 +1,49 @@
+import type { CachedProduct, MacroData } from '../types';
+import { foodDataService, productToFoodItem, type FoodDataService } from './foodProviders';
+import { productCacheStore } from './storage';
+
+// Package nutrition rarely changes; older entries are refetched when there is a connection.
+export const PRODUCT_CACHE_TTL_DAYS = 30;
+const MAX_CACHED_PRODUCTS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isProductFresh = (product: CachedProduct, now: number = Date.now()): boolean =>
+    now - Date.parse(product.fetchedAt) < PRODUCT_CACHE_TTL_DAYS * DAY_MS;
+
+export const getCachedProduct = (barcode: string): CachedProduct | null =>
+    productCacheStore.get()[barcode] || null;
+
+const cacheProduct = (barcode: string, item: MacroData): CachedProduct => {
+    const product: CachedProduct = { barcode, item: { ...item, barcode }, fetchedAt: new Date().toISOString() };
+    productCacheStore.update(cache => {
+        const entries = Object.values({ ...cache, [barcode]: product })
+            .sort((a, b) => Date.parse(b.fetchedAt) - Date.parse(a.fetchedAt))
+            .slice(0, MAX_CACHED_PRODUCTS);
+        return Object.fromEntries(entries.map(entry => [entry.barcode, entry]));
+    });
+    return product;
+};
+
+/**
+ * Looks a barcode up through the device cache. Fresh entries skip the providers;
+ * stale ones are refetched but still used if no provider can be reached.
+ * `refresh` always asks the providers. Resolves to null when the product is
+ * unknown, and throws when it can't be looked up and nothing is cached.
+ */
+export const findProduct = async (
+    barcode: string,
+    { refresh = false, service = foodDataService }: { refresh?: boolean; service?: FoodDataService } = {},
+): Promise<CachedProduct | null> => {
+    const cached = getCachedProduct(barcode);
+    if (cached && !refresh && isProductFresh(cached)) return cached;
+
+    try {
+        const product = await service.findByBarcode(barcode);
+        const item = product && productToFoodItem(product);
+        if (!item) return cached;
+        return cacheProduct(barcode, item);
+    } catch (error) {
+        if (cached) return cached;
+        throw error;
+    }
+};
@@ -0,0 +1,42 @@
+import type { FeaturedRecipe, IngredientNutrition, MacroData, Nutrients, Recipe } from '../types';
+import { customRecipesStore, favoritesStore } from './storage';
+import { MACRO_KEYS, createPortionedItem, divideNutrients } from './portions';
+import { sumMicronutrients } from './micronutrients';
+
+type AnyRecipe = Recipe | FeaturedRecipe;
+export type RecipeNutritionChanges = Pick<Recipe, 'servings' | 'ingredientNutrition'>;
+
+/** Saved recipes are matched by source URL, or by id for the user's own. */
+export const getRecipeKey = (recipe: AnyRecipe): string | undefined => recipe.url || (recipe as Recipe).id;
+
+export const sumIngredientNutrition = (items: IngredientNutrition[]): Nutrients => {
+    const totals = { ...sumMicronutrients(items).totals } as Nutrients;
+    MACRO_KEYS.forEach(key => {
+        totals[key] = items.reduce((sum, item) => sum + item[key], 0);
+    });
+    return totals;
+};
+
+export const getServingNutrition = (recipe: AnyRecipe): Nutrients | null => {
+    if (!recipe.ingredientNutrition?.length) return null;
+    return divideNutrients(sumIngredientNutrition(recipe.ingredientNutrition), recipe.servings || 1);
+};
+
+/** Keeps servings and nutrition on the saved copies of a recipe so they aren't estimated again. */
+export const updateSavedRecipe = (recipe: AnyRecipe, changes: RecipeNutritionChanges) => {
+    const key = getRecipeKey(recipe);
+    if (!key) return;
+    const apply = (recipes: Recipe[]) =>
+        recipes.some(saved => getRecipeKey(saved) === key)
+            ? recipes.map(saved => (getRecipeKey(saved) === key ? { ...saved, ...changes } : saved))
+            : recipes;
+    favoritesStore.update(apply);
+    customRecipesStore.update(apply);
+};
+
+/** A log item for `servings` servings of the recipe, or null before its nutrition is known. */
+export const recipeToFoodItem = (recipe: AnyRecipe, servings = 1): MacroData | null => {
+    const perServing = getServingNutrition(recipe);
+    if (!perServing) return null;
+    return createPortionedItem(recipe.title, { unit: 'serving', perUnit: perServing }, servings);
+};
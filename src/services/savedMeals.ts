@@ -0,0 +1,66 @@
+import type { LoggedMealItem, MacroData, MealSlot, SavedMeal } from '../types';
+import { savedMealsStore, type DailyLogs } from './storage';
+import { getMealSlot } from './mealSlots';
+
+export const saveMeal = (name: string, items: MacroData[], mealSlot?: MealSlot): SavedMeal => {
+    const now = new Date().toISOString();
+    const meal: SavedMeal = {
+        id: `saved_${Date.now()}`,
+        name: name.trim(),
+        items: items.map(item => ({ ...item })),
+        ...(mealSlot ? { mealSlot } : {}),
+        createdAt: now,
+        lastUsedAt: now,
+        useCount: 0,
+    };
+    savedMealsStore.update(meals => [meal, ...meals]);
+    return meal;
+};
+
+export const deleteSavedMeal = (id: string) => {
+    savedMealsStore.update(meals => meals.filter(meal => meal.id !== id));
+};
+
+export const recordSavedMealUse = (id: string) => {
+    const now = new Date().toISOString();
+    savedMealsStore.update(meals => meals.map(meal =>
+        meal.id === id ? { ...meal, useCount: meal.useCount + 1, lastUsedAt: now } : meal
+    ));
+};
+
+export const sortSavedMeals = (meals: SavedMeal[]): SavedMeal[] =>
+    [...meals].sort((a, b) => b.useCount - a.useCount || b.lastUsedAt.localeCompare(a.lastUsedAt));
+
+export interface RecentMeal {
+    entry: LoggedMealItem; // the latest time this combination was logged
+    date: string;
+    count: number;
+}
+
+// Entries with the same foods count as the same meal, whatever order they were listed in.
+const mealSignature = (entry: LoggedMealItem) =>
+    entry.items.map(item => item.foodName.trim().toLowerCase()).sort().join('|');
+
+/**
+ * Distinct meals from the given logs, most frequently logged first and the
+ * most recent first among equals.
+ */
+export const getRecentMeals = (logs: DailyLogs, limit = 8): RecentMeal[] => {
+    const bySignature = new Map<string, RecentMeal>();
+    Object.keys(logs).sort().forEach(date => {
+        // Day logs are stored newest first; walk them oldest first so later entries win.
+        [...logs[date]].reverse().forEach(entry => {
+            if (entry.type !== 'meal' || entry.items.length === 0) return;
+            const signature = mealSignature(entry);
+            const existing = bySignature.get(signature);
+            bySignature.set(signature, { entry, date, count: (existing?.count || 0) + 1 });
+        });
+    });
+    return [...bySignature.values()]
+        .sort((a, b) => b.count - a.count || b.date.localeCompare(a.date) || b.entry.timestamp.localeCompare(a.entry.timestamp))
+        .slice(0, limit);
+};
+
+/** Meals logged into `slot` in a day's log, for copying them to another day. */
+export const getSlotEntries = (log: DailyLogs[string], slot: MealSlot): LoggedMealItem[] =>
+    log.filter((entry): entry is LoggedMealItem => entry.type === 'meal' && getMealSlot(entry) === slot);
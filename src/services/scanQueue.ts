@@ -0,0 +1,63 @@
+import type { LoggedMealItem, PendingScan } from '../types';
+import { pendingScansStore } from './storage';
+import { addDayLogEntry } from './logStore';
+import { findProduct } from './productCache';
+
+export interface ScanQueueResult {
+    logged: LoggedMealItem[];
+    notFound: string[]; // barcodes the database doesn't know
+    dates: string[]; // day keys whose log changed
+}
+
+export const queueScan = (scan: Omit<PendingScan, 'id'>): PendingScan => {
+    const pending: PendingScan = { ...scan, id: `scan_${Date.now()}` };
+    pendingScansStore.update(scans => [...scans, pending]);
+    return pending;
+};
+
+const resolveQueue = async (): Promise<ScanQueueResult> => {
+    const result: ScanQueueResult = { logged: [], notFound: [], dates: [] };
+    for (const scan of pendingScansStore.get()) {
+        let product;
+        try {
+            product = await findProduct(scan.barcode);
+        } catch (error) {
+            console.warn("Queued barcode scans are still waiting for a connection.", error);
+            break;
+        }
+
+        if (product) {
+            const entry: LoggedMealItem = {
+                type: 'meal',
+                id: `meal_barcode_${scan.id}`,
+                timestamp: scan.timestamp,
+                timeZone: scan.timeZone,
+                items: [product.item],
+                mealSlot: scan.mealSlot,
+            };
+            await addDayLogEntry(scan.date, entry);
+            result.logged.push(entry);
+            if (!result.dates.includes(scan.date)) result.dates.push(scan.date);
+        } else {
+            result.notFound.push(scan.barcode);
+        }
+        pendingScansStore.update(scans => scans.filter(pending => pending.id !== scan.id));
+    }
+    return result;
+};
+
+let inFlight: Promise<ScanQueueResult> | null = null;
+
+/**
+ * Looks up scans made while offline and logs them to the day, time and meal
+ * they were scanned for. Safe to call repeatedly; overlapping calls share one run.
+ */
+export const resolvePendingScans = (): Promise<ScanQueueResult> => {
+    if (!navigator.onLine || pendingScansStore.get().length === 0) {
+        return Promise.resolve({ logged: [], notFound: [], dates: [] });
+    }
+    inFlight ||= resolveQueue().finally(() => {
+        inFlight = null;
+    });
+    return inFlight;
+};
@@ -0,0 +1,210 @@
+import type { UserProfile, DailyLogEntry, Recipe, MealPlan, CustomFood, SavedMeal, ScannedLabel, CachedProduct, PendingScan, ProductContribution, GroceryList, MealPlanRequest, ActivePlan } from '../types';
+
+const KEY_PREFIX = 'nutrisnap_';
+const SCHEMA_VERSION_KEY = `${KEY_PREFIX}schemaVersion`;
+const CORRUPT_SUFFIX = '_corrupt';
+
+export type Theme = 'light' | 'dark';
+export type DailyLogs = Record<string, DailyLogEntry[]>;
+export type WaterLog = Record<string, number>; // glasses per date key
+
+type Listener<T> = (value: T) => void;
+
+export interface StoredValue<T> {
+    readonly key: string;
+    get: () => T;
+    set: (value: T) => boolean;
+    update: (updater: (current: T) => T) => T;
+    remove: () => void;
+    subscribe: (listener: Listener<T>) => () => void;
+}
+
+// --- Schema migrations ---------------------------------------------------
+// Each migration upgrades localStorage from version `index` to `index + 1`.
+// They run once, in order, the first time any store is touched.
+
+const readRaw = (key: string) => localStorage.getItem(key);
+
+const migrations: (() => void)[] = [
+    // v0 -> v1: theme was stored as a bare string, water as two loose keys for "today" only.
+    () => {
+        const theme = readRaw(`${KEY_PREFIX}theme`);
+        if (theme === 'light' || theme === 'dark') {
+            localStorage.setItem(`${KEY_PREFIX}theme`, JSON.stringify(theme));
+        }
+
+        const water = readRaw(`${KEY_PREFIX}waterIntake`);
+        const waterDate = readRaw(`${KEY_PREFIX}logDate`);
+        if (water !== null && waterDate) {
+            const glasses = Number(JSON.parse(water));
+            if (!isNaN(glasses)) {
+                localStorage.setItem(`${KEY_PREFIX}waterLog`, JSON.stringify({ [waterDate]: glasses }));
+            }
+        }
+        localStorage.removeItem(`${KEY_PREFIX}waterIntake`);
+        localStorage.removeItem(`${KEY_PREFIX}logDate`);
+    },
+    // v1 -> v2: meal plan days had fixed breakfast/lunch/dinner fields instead of a list of meals.
+    () => {
+        const raw = readRaw(`${KEY_PREFIX}mealPlanHistory`);
+        if (raw === null) return;
+        const history = JSON.parse(raw);
+        if (!Array.isArray(history)) return;
+        const slots = ['breakfast', 'lunch', 'dinner'] as const;
+        history.forEach(plan => {
+            if (!Array.isArray(plan?.plan)) return;
+            plan.plan.forEach((day: Record<string, unknown>) => {
+                if (Array.isArray(day.meals)) return;
+                day.meals = slots.filter(slot => day[slot]).map(slot => ({ ...(day[slot] as Record<string, unknown>), mealSlot: slot }));
+                slots.forEach(slot => delete day[slot]);
+            });
+        });
+        localStorage.setItem(`${KEY_PREFIX}mealPlanHistory`, JSON.stringify(history));
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations.length;
+
+let migrated = false;
+
+const ensureMigrated = () => {
+    if (migrated) return;
+    migrated = true;
+
+    const storedVersion = parseInt(readRaw(SCHEMA_VERSION_KEY) || '0', 10) || 0;
+    for (let version = storedVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+        try {
+            migrations[version]();
+        } catch (error) {
+            console.error(`Storage migration to v${version + 1} failed. Continuing with existing data.`, error);
+        }
+    }
+    if (storedVersion !== CURRENT_SCHEMA_VERSION) {
+        localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    }
+};
+
+// --- Typed accessors -----------------------------------------------------
+
+const listeners = new Map<string, Set<Listener<unknown>>>();
+const storesByKey = new Map<string, StoredValue<unknown>>();
+
+const notify = (key: string, value: unknown) => {
+    listeners.get(key)?.forEach(listener => listener(value));
+};
+
+/**
+ * Moves an unreadable value aside so the app can start fresh without losing
+ * the raw data for good.
+ */
+const quarantine = (key: string, raw: string) => {
+    console.warn(`Stored value for "${key}" is corrupted. A copy was kept under "${key}${CORRUPT_SUFFIX}".`);
+    try {
+        localStorage.setItem(`${key}${CORRUPT_SUFFIX}`, raw);
+    } catch (error) {
+        console.error(`Could not back up corrupted value for "${key}".`, error);
+    }
+    localStorage.removeItem(key);
+};
+
+const createStoredValue = <T>(
+    name: string,
+    fallback: () => T,
+    isValid: (value: unknown) => boolean,
+): StoredValue<T> => {
+    const key = `${KEY_PREFIX}${name}`;
+
+    const get = (): T => {
+        ensureMigrated();
+        const raw = readRaw(key);
+        if (raw === null) return fallback();
+        try {
+            const parsed = JSON.parse(raw);
+            if (isValid(parsed)) return parsed as T;
+        } catch {
+            // Fall through to quarantine below.
+        }
+        quarantine(key, raw);
+        return fallback();
+    };
+
+    const set = (value: T): boolean => {
+        ensureMigrated();
+        try {
+            localStorage.setItem(key, JSON.stringify(value));
+        } catch (error) {
+            console.error(`Could not save "${key}" to localStorage.`, error);
+            return false;
+        }
+        notify(key, value);
+        return true;
+    };
+
+    const update = (updater: (current: T) => T): T => {
+        const next = updater(get());
+        set(next);
+        return next;
+    };
+
+    const remove = () => {
+        localStorage.removeItem(key);
+        notify(key, fallback());
+    };
+
+    const subscribe = (listener: Listener<T>) => {
+        // Only values of this store's type are ever sent under its key.
+        const keyListener = listener as Listener<unknown>;
+        if (!listeners.has(key)) listeners.set(key, new Set());
+        listeners.get(key)!.add(keyListener);
+        return () => {
+            listeners.get(key)?.delete(keyListener);
+        };
+    };
+
+    const store = { key, get, set, update, remove, subscribe };
+    storesByKey.set(key, store as StoredValue<unknown>);
+    return store;
+};
+
+// Keep other tabs in sync: localStorage fires `storage` events only in the tabs that did not write.
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+        if (!event.key || !listeners.has(event.key)) return;
+        const store = storesByKey.get(event.key);
+        if (store) notify(event.key, store.get());
+    });
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isProfile = (value: unknown) =>
+    isObject(value) && !!value.name && !!value.email && !!value.avatarUrl;
+
+const isDailyLogs = (value: unknown) =>
+    isObject(value) && Object.values(value).every(Array.isArray);
+
+const isWaterLog = (value: unknown) =>
+    isObject(value) && Object.values(value).every(v => typeof v === 'number');
+
+const isGroceryList = (value: unknown) =>
+    value === null || (isObject(value) && Array.isArray(value.items));
+
+export const profileStore = createStoredValue<UserProfile | null>('userProfile', () => null, isProfile);
+export const onboardingCompleteStore = createStoredValue<boolean>('onboardingComplete', () => false, v => typeof v === 'boolean');
+export const themeStore = createStoredValue<Theme>('theme', () => 'light', v => v === 'light' || v === 'dark');
+// Legacy food log blob; only read by the one-time import into the IndexedDB log store.
+export const dailyLogsStore = createStoredValue<DailyLogs>('dailyLogs', () => ({}), isDailyLogs);
+export const waterLogStore = createStoredValue<WaterLog>('waterLog', () => ({}), isWaterLog);
+export const favoritesStore = createStoredValue<Recipe[]>('favorites', () => [], Array.isArray);
+export const customRecipesStore = createStoredValue<Recipe[]>('customRecipes', () => [], Array.isArray);
+export const mealPlanHistoryStore = createStoredValue<MealPlan[]>('mealPlanHistory', () => [], Array.isArray);
+export const customFoodsStore = createStoredValue<CustomFood[]>('customFoods', () => [], Array.isArray);
+export const savedMealsStore = createStoredValue<SavedMeal[]>('savedMeals', () => [], Array.isArray);
+export const scannedLabelsStore = createStoredValue<Record<string, ScannedLabel>>('scannedLabels', () => ({}), isObject);
+export const productCacheStore = createStoredValue<Record<string, CachedProduct>>('productCache', () => ({}), isObject);
+export const pendingScansStore = createStoredValue<PendingScan[]>('pendingScans', () => [], Array.isArray);
+export const contributionsStore = createStoredValue<Record<string, ProductContribution>>('productContributions', () => ({}), isObject);
+export const groceryListStore = createStoredValue<GroceryList | null>('groceryList', () => null, isGroceryList);
+export const mealPlanRequestStore = createStoredValue<MealPlanRequest | null>('mealPlanRequest', () => null, v => v === null || isObject(v));
+export const activePlanStore = createStoredValue<ActivePlan | null>('activePlan', () => null, v => v === null || (isObject(v) && typeof v.planId === 'string'));
@@ -1,5 +1,20 @@
-export interface MacroData {
-  foodName: string;
+/** Optional extras; a missing value means "unknown", not zero. */
+export interface Micronutrients {
+  fiber?: number; // g
+  saturatedFat?: number; // g
+  sodium?: number; // mg
+  cholesterol?: number; // mg
+  potassium?: number; // mg
+  calcium?: number; // mg
+  iron?: number; // mg
+  vitaminA?: number; // µg RAE
+  vitaminC?: number; // mg
+  vitaminD?: number; // µg
+}
+
+export type MicronutrientKey = keyof Micronutrients;
+
+export interface Nutrients extends Micronutrients {
   calories: number;
   protein: number;
   carbohydrates: number;
@@ -7,17 +22,64 @@ export interface MacroData {
   sugar: number;
 }
 
+export type PortionUnit = 'g' | 'ml' | 'cup' | 'piece' | 'serving';
+
+/** A way of measuring a food, with the nutrients contained in one unit of it. */
+export interface PortionBasis {
+  unit: PortionUnit;
+  label?: string; // what one unit is, e.g. "bowl" or "bar (45 g)"
+  perUnit: Nutrients;
+  defaultQuantity?: number;
+}
+
+export interface Portion extends PortionBasis {
+  quantity: number;
+}
+
+export interface MacroData extends Nutrients {
+  foodName: string;
+  portion?: Portion; // totals above are always perUnit × quantity
+  portionOptions?: PortionBasis[]; // other units the amount can be entered in, e.g. per serving and per gram
+  confidence?: number; // 0-1, how sure the AI is about an estimated item
+  barcode?: string; // packaged products, so their data can be refreshed
+  unknownNutrients?: (keyof Nutrients)[]; // macros the data source didn't report; their totals are 0 placeholders
+}
+
+/** One photo sent for analysis; leftovers photos show what was left on the plate. */
+export interface AnalysisPhoto {
+  image: File | Blob;
+  kind: 'meal' | 'leftovers';
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+
 export interface LoggedMealItem {
   type: 'meal';
   id: string;
-  timestamp: string;
+  timestamp: string; // ISO 8601 instant
+  timeZone?: string; // IANA zone the entry was logged in
   items: MacroData[];
+  hasImage?: boolean; // compressed photo kept in the IndexedDB log store
+  mealSlot?: MealSlot;
+  planMealId?: string; // set when logged from the active meal plan
+}
+
+/** A named group of items the user logs together, e.g. their usual breakfast. */
+export interface SavedMeal {
+  id: string;
+  name: string;
+  items: MacroData[];
+  mealSlot?: MealSlot;
+  createdAt: string; // ISO 8601 instant
+  lastUsedAt: string; // ISO 8601 instant
+  useCount: number;
 }
 
 export interface LoggedExerciseItem {
     type: 'exercise';
     id: string;
-    timestamp: string;
+    timestamp: string; // ISO 8601 instant
+    timeZone?: string; // IANA zone the entry was logged in
     name: string;
     caloriesBurned: number;
 }
@@ -35,6 +97,8 @@ export interface Recipe {
   url?: string;
   imageUrl: string;
   imageSearchQuery?: string;
+  servings?: number; // how many servings the ingredient amounts make
+  ingredientNutrition?: IngredientNutrition[];
 }
 
 export interface FeaturedRecipe {
@@ -45,6 +109,13 @@ export interface FeaturedRecipe {
   imageSearchQuery?: string;
   ingredients: string[];
   instructions: string[];
+  servings?: number;
+  ingredientNutrition?: IngredientNutrition[];
+}
+
+/** Nutrition of one ingredient line in the amount the whole recipe uses. */
+export interface IngredientNutrition extends Nutrients {
+  ingredient: string;
 }
 
 
@@ -81,18 +152,36 @@ export interface ChatMessage {
 }
 
 export interface Meal {
+    mealSlot: MealSlot;
     name: string;
     description: string;
     calories: number;
     protein: number;
+    ingredients?: string[]; // one serving, e.g. "1/2 cup rolled oats"; missing on older plans
 }
 
 export interface DailyPlan {
     day: string;
-    breakfast: Meal;
-    lunch: Meal;
-    dinner: Meal;
+    meals: Meal[]; // in the order they're eaten
     totalCalories: number;
+    totalProtein?: number;
+}
+
+/** Daily targets a meal plan was balanced against. */
+export interface MealPlanTargets {
+    calories: number;
+    protein: number; // grams
+}
+
+/** What the user asks for when generating a meal plan. */
+export interface MealPlanRequest {
+    days: number;
+    mealsPerDay: number; // main meals, not counting snacks
+    snacksPerDay: number;
+    excludedIngredients: string[];
+    budget?: 'low' | 'moderate';
+    maxPrepMinutes?: number; // per meal
+    cuisines: string[];
 }
 
 export interface MealPlan {
@@ -100,6 +189,24 @@ export interface MealPlan {
     createdAt: string;
     plan: DailyPlan[];
     notes: string;
+    targets?: MealPlanTargets; // missing on plans made before they were checked
+    version?: number; // 1 when generated, +1 for each edit saved as a new entry
+    basedOnId?: string; // the plan this version was edited from
+    request?: MealPlanRequest; // the options it was generated with; missing on older plans
+}
+
+/** The plan being followed: its first day falls on `startDate` and the rest follow day by day. */
+export interface ActivePlan {
+    planId: string;
+    startDate: string; // day key
+}
+
+export interface NutritionGoals {
+  calories: number;
+  protein: number; // grams
+  carbohydrates: number; // grams
+  fat: number; // grams
+  water: number; // glasses
 }
 
 export interface UserProfile {
@@ -116,7 +223,115 @@ export interface UserProfile {
   fitnessGoal?: 'Lose Weight' | 'Maintain Weight' | 'Build Muscle';
   dietaryPreferences?: 'None' | 'Vegetarian' | 'Vegan' | 'Gluten-Free' | 'Pescatarian' | 'Low-Carb' | 'Keto' | 'Carnivore';
   calorieGoal?: number;
+  goalOverrides?: Partial<Omit<NutritionGoals, 'calories'>>;
+  mealSlotBudgets?: Partial<Record<MealSlot, number>>; // kcal
   weightHistory?: { date: string; weight: number; }[]; // weight is in kg
 }
 
-export type CustomFood = MacroData;
+/** A food saved to the user's "My Foods" library for quick re-logging. */
+export interface CustomFood extends MacroData {
+  id: string;
+  createdAt: string; // ISO 8601 instant
+  lastUsedAt: string; // ISO 8601 instant
+  useCount: number;
+}
+
+/** What a packaged food's Nutrition Facts panel says, read from a photo. */
+export interface NutritionLabel {
+  productName?: string;
+  servingSize: string; // as printed, e.g. "2/3 cup (55g)"
+  servingAmount?: number; // metric amount of one serving, in `servingUnit`
+  servingUnit?: 'g' | 'ml';
+  servingsPerContainer?: number;
+  perServing: Nutrients;
+}
+
+/** A label read after a barcode had no database match, remembered under that barcode. */
+export interface ScannedLabel {
+  barcode: string;
+  label: NutritionLabel;
+  savedAt: string; // ISO 8601 instant
+}
+
+/** A barcode lookup kept on the device so repeat scans work without a connection. */
+export interface CachedProduct {
+  barcode: string;
+  item: MacroData;
+  fetchedAt: string; // ISO 8601 instant
+}
+
+/** A barcode scanned while offline, looked up and logged once the connection returns. */
+export interface PendingScan {
+  id: string;
+  barcode: string;
+  date: string; // day key the scan belongs to
+  timestamp: string; // ISO 8601 instant of the scan, used for the logged entry
+  timeZone: string;
+  mealSlot: MealSlot;
+}
+
+/**
+ * A food as a data provider (Open Food Facts, the user's own products, ...)
+ * describes it. Nutrients the provider doesn't know are left out, never 0.
+ */
+export interface FoodProduct {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  baseUnit: 'g' | 'ml';
+  per100?: Partial<Nutrients>; // per 100 g or 100 ml
+  perServing?: Partial<Nutrients>;
+  servingSize?: string; // as printed, e.g. "1 bar (40 g)"
+  servingAmount?: number; // one serving in `baseUnit`
+  servingsPerContainer?: number;
+  sources: string[]; // ids of the providers that contributed
+}
+
+/**
+ * A product the user described after a barcode miss. Kept on the device and,
+ * if the user opts in, shared with Open Food Facts.
+ */
+export interface ProductContribution {
+  barcode: string;
+  name: string;
+  brand?: string;
+  servingSize: string; // as printed, e.g. "1 bar (40 g)"
+  servingAmount?: number; // one serving in `servingUnit`
+  servingUnit: 'g' | 'ml';
+  perServing: Partial<Nutrients>; // only what the user entered
+  hasLabelPhoto: boolean;
+  shareStatus: 'private' | 'pending' | 'submitted'; // pending = opted in, waiting to be sent
+  createdAt: string; // ISO 8601 instant
+  submittedAt?: string; // ISO 8601 instant
+}
+
+/** A recipe ingredient line split into its parts. `original` is kept for display. */
+export interface ParsedIngredient {
+  original: string;
+  quantity?: number; // the amount, or the low end of a range like "2-3"
+  quantityMax?: number; // the high end of a range
+  unit?: string; // canonical unit id, e.g. 'cup', 'g', 'clove'
+  name: string;
+  notes?: string; // preparation and other remarks, e.g. "packed", "finely chopped"
+}
+
+export type MeasurementSystem = 'metric' | 'us';
+
+export type GroceryAisle = 'produce' | 'meat' | 'dairy' | 'bakery' | 'pantry' | 'spices' | 'frozen' | 'beverages' | 'other';
+
+export interface GroceryItem {
+    id: string; // merge key: normalized name plus the kind of unit
+    name: string;
+    quantity?: number;
+    unit?: string;
+    aisle: GroceryAisle;
+    checked: boolean;
+    sources: string[]; // the meals or recipes that need it
+}
+
+export interface GroceryList {
+    id: string;
+    title: string;
+    createdAt: string;
+    items: GroceryItem[];
+}